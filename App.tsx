@@ -1,31 +1,54 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { generateDashboardConfig, suggestDashboards, generateAdvancedInsights } from './services/geminiService';
 import { fetchServiceSchema, executeODataQuery } from './services/odataService';
-import { parseFile, executeLocalQuery } from './services/fileService';
+import { createAuthStrategy, AuthStrategy } from './services/authService';
+import { parseFile, setStoreNavigations } from './services/localDataset';
+import { loadRecipe, saveRecipe } from './services/dataPrep';
+import { applyRelationships, storeNavigations, suggestRelationships, relationshipKey } from './services/localRelationships';
+import { isAbortError } from './services/requestControl';
+import { widgetQueryUpdate } from './services/odataQuery';
+import {
+  CONNECTION_KIND_LABELS, canDrillDown, connectionBaseUrl, createFileConnection, createODataConnection, createSqlConnection,
+  createTimbrConnection, executeWidgetQuery, findWidgetConnection, odataConnectionId, upsertConnection
+} from './services/connectionRegistry';
 import { FuturisticBentoGrid } from './components/FuturisticBentoGrid';
 import { DrillDownModal } from './components/DrillDownModal';
 import { DataExplorerModal } from './components/DataExplorerModal';
 import { InsightsModal } from './components/InsightsModal';
-import { DashboardWidgetConfig, DatabaseSchema, DataPoint, AnalysisResult, ChartType } from './types';
+import { AuthSettingsForm } from './components/AuthSettingsForm';
+import { SchemaChangeBanner } from './components/SchemaChangeBanner';
+import { RelationshipsModal } from './components/RelationshipsModal';
+import { DataPrepModal } from './components/DataPrepModal';
+import { DashboardWidgetConfig, DataConnection, DataPoint, AnalysisResult, ChartType, AuthConfig, ConnectionKind, SchemaDiff, FileParseProgress, LocalRelationship, LocalDataset, DatabaseSchema, PrepStep } from './types';
 import { MOCK_SCHEMA, MOCK_KG_SCHEMA } from './constants';
 
 // Use a known public OData service for demo purposes if user has none
 const DEFAULT_ODATA_URL = "https://services.odata.org/V4/Northwind/Northwind.svc";
 
-type ConnectionMode = 'odata' | 'file' | 'sql' | 'timbr';
+const UPLOAD_STAGE_LABELS: Record<FileParseProgress['stage'], string> = {
+  reading: 'קורא את הקובץ',
+  parsing: 'מפענח גיליונות',
+  typing: 'מזהה סוגי עמודות'
+};
+
+// Copy of a per-connection record without one connection's entry
+const without = <T,>(record: Record<string, T>, id: string): Record<string, T> => {
+  const next = { ...record };
+  delete next[id];
+  return next;
+};
 
 const App: React.FC = () => {
   // Theme State (Default to true for Dark Mode)
   const [isDarkMode, setIsDarkMode] = useState(true);
 
-  // Connection State
-  const [mode, setMode] = useState<ConnectionMode>('odata');
+  // Connection form State (the kind of source being added)
+  const [mode, setMode] = useState<ConnectionKind>('odata');
   
   // OData State
   const [baseUrl, setBaseUrl] = useState(DEFAULT_ODATA_URL);
-  const [username, setUsername] = useState('');
-  const [password, setPassword] = useState('');
+  const [authConfig, setAuthConfig] = useState<AuthConfig>({ type: 'basic', username: '', password: '' });
   
   // SQL State
   const [projectId, setProjectId] = useState('my-gcp-project');
@@ -35,13 +58,30 @@ const App: React.FC = () => {
   const [ontology, setOntology] = useState('ecommerce_kg');
   const [timbrToken, setTimbrToken] = useState('');
 
-  // File State
-  const [fileData, setFileData] = useState<DataPoint[]>([]);
+  // Connection registry: every source active in the dashboard
+  const [sourceConnections, setConnections] = useState<DataConnection[]>([]);
+  // Relationships between uploaded files, and the ones the data suggests
+  const [relationships, setRelationships] = useState<LocalRelationship[]>([]);
+  const [suggestedRelationships, setSuggestedRelationships] = useState<LocalRelationship[]>([]);
+  // The sources as the rest of the app sees them: file entities carry the relationships as navigation properties
+  const connections = useMemo(() => applyRelationships(sourceConnections, relationships), [sourceConnections, relationships]);
+  const fileConnections = connections.filter(c => c.kind === 'file');
+  // One strategy per OData connection so OAuth2 tokens are cached across widgets
+  const [auths, setAuths] = useState<Record<string, AuthStrategy>>({});
+  // Source used by the data explorer and the insights analysis
+  const [activeConnectionId, setActiveConnectionId] = useState<string | null>(null);
+  const activeConnection = connections.find(c => c.id === activeConnectionId) || connections[0];
 
   // General App State
   const [isConnected, setIsConnected] = useState(false);
-  const [schema, setSchema] = useState<DatabaseSchema | null>(null);
+  // Differences between each service's current $metadata and the cached copy, by connection id
+  const [schemaChanges, setSchemaChanges] = useState<Record<string, SchemaDiff>>({});
   const [isConnecting, setIsConnecting] = useState(false);
+  // File being parsed in its worker; aborting terminates the worker
+  const uploadAbort = useRef<AbortController | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<FileParseProgress | null>(null);
+  // A parsed upload waiting in the preparation screen before it joins the dashboard
+  const [pendingUpload, setPendingUpload] = useState<{ fileName: string; dataset: LocalDataset; schema: DatabaseSchema; steps: PrepStep[] } | null>(null);
 
   // Dashboard State
   const [prompt, setPrompt] = useState('');
@@ -56,6 +96,7 @@ const App: React.FC = () => {
   const [isExplorerOpen, setIsExplorerOpen] = useState(false);
   const [isInsightsOpen, setIsInsightsOpen] = useState(false);
   const [isFavoritesOpen, setIsFavoritesOpen] = useState(false);
+  const [isRelationshipsOpen, setIsRelationshipsOpen] = useState(false);
   
   // Analysis & Favorites
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
@@ -88,36 +129,84 @@ const App: React.FC = () => {
     localStorage.setItem('odata_genius_favorites', JSON.stringify(savedReports));
   }, [savedReports]);
 
+  // The local data worker follows the relationships when a query $expands them
+  useEffect(() => {
+    if (sourceConnections.some(c => c.dataset)) setStoreNavigations(storeNavigations(sourceConnections, relationships));
+  }, [sourceConnections, relationships]);
+
+  // Suggest relationships whenever files are added or removed (or a suggestion is accepted)
+  useEffect(() => {
+    const files = sourceConnections.filter(c => c.kind === 'file');
+    if (files.length === 0) {
+      setSuggestedRelationships([]);
+      return;
+    }
+    let cancelled = false;
+    suggestRelationships(files, relationships)
+      .then(suggestions => { if (!cancelled) setSuggestedRelationships(suggestions); })
+      .catch(err => console.error("Failed to suggest relationships", err));
+    return () => { cancelled = true; };
+  }, [sourceConnections, relationships]);
+
   // Unified Query Execution Helper
-  const executeQuery = async (query: string): Promise<DataPoint[]> => {
-    if (mode === 'odata') {
-      return await executeODataQuery(baseUrl, query, username, password);
-    } else if (mode === 'file') {
-      return executeLocalQuery(fileData, query);
+  const executeQuery = async (connection: DataConnection, query: string): Promise<DataPoint[]> => {
+    if (connection.kind === 'odata') {
+      return await executeODataQuery(connectionBaseUrl(connection), query, auths[connection.id]);
+    } else if (connection.kind === 'file') {
+      return connection.dataset ? await connection.dataset.query(query) : [];
     } else {
       // SQL / Timbr Mode mock check
       return []; 
     }
   };
 
+  // Adds the source to the registry (replacing it on reconnect) and shows the dashboard
+  const addConnection = (connection: DataConnection) => {
+    // A re-uploaded file replaces the previous upload's worker
+    connections.find(c => c.id === connection.id)?.dataset?.dispose();
+    setConnections(prev => upsertConnection(prev, connection));
+    setActiveConnectionId(connection.id);
+    setIsConnected(true);
+  };
+
+  const removeConnection = (id: string) => {
+    connections.find(c => c.id === id)?.dataset?.dispose();
+    setConnections(prev => prev.filter(c => c.id !== id));
+    setWidgets(prev => prev.filter(w => w.connectionId !== id));
+    setAuths(prev => without(prev, id));
+    setSchemaChanges(prev => without(prev, id));
+    setRelationships(prev => prev.filter(r => r.from.connectionId !== id && r.to.connectionId !== id));
+  };
+
+  const addRelationship = (relationship: LocalRelationship) =>
+    setRelationships(prev => prev.some(r => relationshipKey(r) === relationshipKey(relationship)) ? prev : [...prev, relationship]);
+
+  const removeRelationship = (relationship: LocalRelationship) =>
+    setRelationships(prev => prev.filter(r => relationshipKey(r) !== relationshipKey(relationship)));
+
   const handleConnect = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
     setIsConnecting(true);
     setError(null);
     try {
       if (mode === 'odata') {
-          const fetchedSchema = await fetchServiceSchema(baseUrl, username, password);
-          setSchema(fetchedSchema);
+          const id = odataConnectionId(baseUrl);
+          const auth = createAuthStrategy(authConfig);
+          setSchemaChanges(prev => without(prev, id));
+          const fetchedSchema = await fetchServiceSchema(baseUrl, auth, {
+            onSchemaChange: (diff) => setSchemaChanges(prev => ({ ...prev, [id]: diff }))
+          });
+          setAuths(prev => ({ ...prev, [id]: auth }));
+          addConnection(createODataConnection(baseUrl, authConfig, fetchedSchema));
       } else if (mode === 'sql') {
           // Mock connection for SQL
           await new Promise(r => setTimeout(r, 1000));
-          setSchema(MOCK_SCHEMA); 
+          addConnection(createSqlConnection(projectId, datasetId, MOCK_SCHEMA));
       } else if (mode === 'timbr') {
           // Mock connection for Timbr Knowledge Graph
           await new Promise(r => setTimeout(r, 1000));
-          setSchema(MOCK_KG_SCHEMA);
+          addConnection(createTimbrConnection(ontology, timbrToken, MOCK_KG_SCHEMA));
       }
-      setIsConnected(true);
     } catch (err: any) {
       setError(err.message || "Failed to connect to service");
     } finally {
@@ -126,27 +215,49 @@ const App: React.FC = () => {
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
+    const input = e.target;
+    if (input.files && input.files[0]) {
+      const controller = new AbortController();
+      uploadAbort.current = controller;
       setIsConnecting(true);
+      setUploadProgress(null);
       setError(null);
       try {
-        const { data, schema: parsedSchema } = await parseFile(e.target.files[0]);
-        setFileData(data);
-        setSchema(parsedSchema);
-        setIsConnected(true);
+        const file = input.files[0];
+        const { dataset, schema: parsedSchema } = await parseFile(file, { signal: controller.signal, onProgress: setUploadProgress });
+        setPendingUpload({ fileName: file.name, dataset, schema: parsedSchema, steps: loadRecipe(file.name) || [] });
       } catch (err: any) {
-         setError("שגיאה בקריאת הקובץ: " + err.message);
+         if (!isAbortError(err)) setError("שגיאה בקריאת הקובץ: " + err.message);
       } finally {
+        uploadAbort.current = null;
+        setUploadProgress(null);
         setIsConnecting(false);
+        // Lets the same file be picked again after a cancel or an error
+        input.value = '';
       }
     }
   };
 
+  const cancelUpload = () => uploadAbort.current?.abort();
+
+  // The recipe is saved under the file's name pattern, so next month's upload starts from it
+  const confirmPreparedUpload = (steps: PrepStep[], preparedSchema: DatabaseSchema) => {
+    if (!pendingUpload) return;
+    saveRecipe(pendingUpload.fileName, steps);
+    addConnection(createFileConnection(pendingUpload.fileName, pendingUpload.dataset, preparedSchema));
+    setPendingUpload(null);
+  };
+
+  const discardPendingUpload = () => {
+    pendingUpload?.dataset.dispose();
+    setPendingUpload(null);
+  };
+
   const handleSuggest = async () => {
-    if (!schema) return;
+    if (connections.length === 0) return;
     setIsSuggesting(true); // Specific loader
     try {
-      const suggestions = await suggestDashboards(schema, mode);
+      const suggestions = await suggestDashboards(connections);
       setWidgets(prev => [...suggestions, ...prev]);
     } catch (err: any) {
       console.error(err);
@@ -157,7 +268,7 @@ const App: React.FC = () => {
   };
 
   const handleAdvancedInsights = async () => {
-    if (!schema) return;
+    if (!activeConnection) return;
     setIsInsightsOpen(true);
     setIsInsightsLoading(true);
     setAnalysisResult(null);
@@ -165,18 +276,16 @@ const App: React.FC = () => {
     try {
       // Fetch a sample of data to send to AI
       let dataSample: DataPoint[] = [];
-      const entity = schema.entities[0].name;
+      const entity = activeConnection.schema.entities[0].name;
 
-      if (mode === 'odata') {
-         dataSample = await executeODataQuery(baseUrl, `/${entity}?$top=50`, username, password);
-      } else if (mode === 'file') {
-         dataSample = fileData.slice(0, 50);
+      if (activeConnection.kind === 'odata' || activeConnection.kind === 'file') {
+         dataSample = await executeQuery(activeConnection, `/${entity}?$top=50`);
       } else {
          // SQL / Timbr Mock Sample
          dataSample = [{name: 'Sample A', value: 100}, {name: 'Sample B', value: 200}];
       }
 
-      const result = await generateAdvancedInsights(schema, dataSample, entity);
+      const result = await generateAdvancedInsights(activeConnection.schema, dataSample, entity);
       setAnalysisResult(result);
     } catch (err: any) {
       console.error(err);
@@ -218,27 +327,28 @@ const App: React.FC = () => {
           title: `נתונים גולמיים: ${entity}`,
           description: '',
           chartType: ChartType.BAR, // Dummy
-          odataQuery: `/${entity}?$top=100`, // Default drill down query
+          ...widgetQueryUpdate({ entitySet: entity, top: 100 }, activeConnection?.schema.odataVersion), // Default drill down query
           xAxisKey: '',
           dataKey: '',
-          entity: entity
+          connectionId: activeConnection?.id
       };
       setDrillConfig(drillDownConfig);
   };
 
   const handleGenerate = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!prompt.trim() || !schema) return;
+    if (!prompt.trim() || connections.length === 0) return;
 
     setIsGenerating(true);
     setError(null);
 
     try {
-      const newWidgetConfig = await generateDashboardConfig(prompt, schema, mode);
+      const newWidgetConfig = await generateDashboardConfig(prompt, connections);
+      const connection = findWidgetConnection(connections, newWidgetConfig);
       
       // For SQL/Timbr we skip validation in this demo as we mock it
-      if (mode === 'odata' || mode === 'file') {
-          const validationData = await executeQuery(newWidgetConfig.odataQuery);
+      if (connection && (connection.kind === 'odata' || connection.kind === 'file')) {
+          const validationData = await executeWidgetQuery(connection, newWidgetConfig, auths[connection.id]);
           if (!validationData || validationData.length === 0) {
             setError(`לא נמצאו נתונים עבור הבקשה: "${newWidgetConfig.title}". נסה לנסח אחרת.`);
             setIsGenerating(false);
@@ -262,19 +372,18 @@ const App: React.FC = () => {
   };
 
   const handleUpdateWidget = (id: string, newConfig: Partial<DashboardWidgetConfig>) => {
-    setWidgets(prev => prev.map(w => w.id === id ? { ...w, ...newConfig } : w));
+    // An edited query model is re-serialized (in its own source's protocol version) so odataQuery never goes stale
+    const widgetVersion = (w: DashboardWidgetConfig) => findWidgetConnection(connections, w)?.schema.odataVersion;
+    setWidgets(prev => prev.map(w => w.id !== id ? w : {
+      ...w,
+      ...(newConfig.query ? { ...newConfig, ...widgetQueryUpdate(newConfig.query, widgetVersion(w)) } : newConfig)
+    }));
   };
 
-  // Construct generic connection params to pass to widgets
-  const connectionParams = {
-    projectId,
-    datasetId,
-    ontology,
-    token: timbrToken
-  };
+  const drillConnection = drillConfig ? findWidgetConnection(connections, drillConfig) : undefined;
 
-  // Connection Screen
-  if (!isConnected) {
+  // Connection Screen (also where further sources are added)
+  if (!isConnected || connections.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden bg-[var(--color-surface-100)]">
         
@@ -305,16 +414,35 @@ const App: React.FC = () => {
           </div>
           <h1 className="text-3xl font-extrabold text-[var(--color-text-main)] mb-2 tracking-tight">Data Genius</h1>
           <p className="text-[var(--color-text-muted)] mb-8">הדור הבא של ניתוח נתונים ויזואלי</p>
+
+          {/* Sources already in the dashboard; the form below adds another */}
+          {connections.length > 0 && (
+            <div className="mb-6 text-right">
+              <div className="text-xs font-bold text-[var(--color-text-muted)] mb-2 uppercase tracking-wider">מקורות מחוברים</div>
+              <ul className="space-y-1.5">
+                {connections.map(c => (
+                  <li key={c.id} className="flex items-center gap-2 bg-[var(--color-surface-100)] border border-[var(--color-border-glass)] rounded-xl px-3 py-2 text-sm">
+                    <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-[var(--color-primary)]/10 text-[var(--color-primary)]">{CONNECTION_KIND_LABELS[c.kind]}</span>
+                    <span className="flex-1 truncate text-[var(--color-text-main)]" title={c.id}>{c.label}</span>
+                    <button onClick={() => removeConnection(c.id)} className="text-[var(--color-text-muted)] hover:text-red-500 px-1" title="הסר מקור והווידג'טים שלו">✕</button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => { setError(null); setIsConnected(true); }}
+                className="w-full mt-3 py-2.5 rounded-xl text-sm font-bold bg-[var(--color-surface-200)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-300)] border border-[var(--color-border-glass)] transition-all"
+              >
+                חזרה לדשבורד
+              </button>
+            </div>
+          )}
           
-          {/* Tabs - Now resets state on switch */}
+          {/* Tabs - switching only changes the form; connected sources stay */}
           <div className="flex p-1 bg-[var(--color-surface-200)]/50 rounded-xl mb-6 border border-[var(--color-border-glass)] gap-1 overflow-x-auto no-scrollbar">
              <button 
                 onClick={() => {
                    setMode('odata');
-                   setIsConnected(false);
-                   setSchema(null);
-                   setWidgets([]);
-                   setFileData([]);
+                   setError(null);
                 }}
                 className={`flex-1 min-w-[60px] py-2 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${mode === 'odata' ? 'bg-[var(--color-surface-100)] shadow-sm text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-main)]'}`}
              >
@@ -323,10 +451,7 @@ const App: React.FC = () => {
              <button 
                 onClick={() => {
                    setMode('sql');
-                   setIsConnected(false);
-                   setSchema(null);
-                   setWidgets([]);
-                   setFileData([]);
+                   setError(null);
                 }}
                 className={`flex-1 min-w-[60px] py-2 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${mode === 'sql' ? 'bg-[var(--color-surface-100)] shadow-sm text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-main)]'}`}
              >
@@ -335,10 +460,7 @@ const App: React.FC = () => {
              <button 
                 onClick={() => {
                    setMode('timbr');
-                   setIsConnected(false);
-                   setSchema(null);
-                   setWidgets([]);
-                   setFileData([]);
+                   setError(null);
                 }}
                 className={`flex-1 min-w-[60px] py-2 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${mode === 'timbr' ? 'bg-[var(--color-surface-100)] shadow-sm text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-main)]'}`}
              >
@@ -347,10 +469,7 @@ const App: React.FC = () => {
              <button 
                 onClick={() => {
                    setMode('file');
-                   setIsConnected(false);
-                   setSchema(null);
-                   setWidgets([]);
-                   setFileData([]);
+                   setError(null);
                 }}
                 className={`flex-1 min-w-[60px] py-2 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${mode === 'file' ? 'bg-[var(--color-surface-100)] shadow-sm text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-main)]'}`}
              >
@@ -372,30 +491,7 @@ const App: React.FC = () => {
                  />
                </div>
 
-               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                 <div>
-                   <label className="block text-xs font-bold text-[var(--color-text-muted)] mb-1 uppercase tracking-wider">שם משתמש</label>
-                   <input 
-                     type="text" 
-                     value={username}
-                     onChange={(e) => setUsername(e.target.value)}
-                     className="w-full bg-[var(--color-surface-100)] border border-[var(--color-border-glass)] rounded-xl p-3 focus:ring-2 focus:ring-[var(--color-primary)] focus:outline-none text-[var(--color-text-main)] placeholder-gray-400 text-left transition-all text-base"
-                     dir="ltr"
-                     placeholder="אופציונלי"
-                   />
-                 </div>
-                 <div>
-                   <label className="block text-xs font-bold text-[var(--color-text-muted)] mb-1 uppercase tracking-wider">סיסמא</label>
-                   <input 
-                     type="password" 
-                     value={password}
-                     onChange={(e) => setPassword(e.target.value)}
-                     className="w-full bg-[var(--color-surface-100)] border border-[var(--color-border-glass)] rounded-xl p-3 focus:ring-2 focus:ring-[var(--color-primary)] focus:outline-none text-[var(--color-text-main)] placeholder-gray-400 text-left transition-all text-base"
-                     dir="ltr"
-                     placeholder="אופציונלי"
-                   />
-                 </div>
-               </div>
+               <AuthSettingsForm value={authConfig} onChange={setAuthConfig} />
                
                <button 
                  type="submit" 
@@ -484,7 +580,8 @@ const App: React.FC = () => {
                <input 
                  type="file" 
                  onChange={handleFileUpload} 
-                 accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+                 disabled={isConnecting}
+                 accept=".csv, .json, .ndjson, .jsonl, .parquet, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
                  className="absolute inset-0 opacity-0 cursor-pointer"
                />
                <div className="w-12 h-12 bg-blue-500/10 rounded-full flex items-center justify-center mb-3 group-hover:scale-110 transition-transform">
@@ -493,13 +590,40 @@ const App: React.FC = () => {
                    </svg>
                </div>
                <span className="text-sm font-bold text-[var(--color-text-main)]">גרור קובץ או לחץ להעלאה</span>
-               <span className="text-xs text-[var(--color-text-muted)] mt-1">Excel (XLSX) או CSV</span>
-               {isConnecting && <span className="mt-4 text-sm font-medium text-[var(--color-primary)] animate-pulse">מעבד נתונים...</span>}
+               <span className="text-xs text-[var(--color-text-muted)] mt-1">Excel, CSV, JSON, NDJSON או Parquet</span>
+               {isConnecting && (
+                 <div className="mt-4 w-full max-w-xs flex flex-col items-center gap-2 relative z-10">
+                   <span className="text-sm font-medium text-[var(--color-primary)] animate-pulse">
+                     {uploadProgress ? `${UPLOAD_STAGE_LABELS[uploadProgress.stage]}... ${uploadProgress.percent}%` : 'מעבד נתונים...'}
+                   </span>
+                   <div className="w-full h-1.5 rounded-full bg-[var(--color-surface-200)] overflow-hidden">
+                     <div className="h-full bg-[var(--color-primary)] transition-all" style={{ width: `${uploadProgress?.percent ?? 0}%` }} />
+                   </div>
+                   <button
+                     type="button"
+                     onClick={cancelUpload}
+                     className="text-xs font-bold px-3 py-1 rounded-lg text-[var(--color-text-muted)] border border-[var(--color-border-glass)] hover:text-red-500 transition-colors"
+                   >
+                     ביטול
+                   </button>
+                 </div>
+               )}
             </div>
           )}
 
           {error && <div className="mt-4 text-red-500 text-sm bg-red-50/80 p-3 rounded-lg border border-red-100 backdrop-blur-sm">{error}</div>}
         </div>
+
+        {pendingUpload && (
+          <DataPrepModal
+            fileName={pendingUpload.fileName}
+            dataset={pendingUpload.dataset}
+            schema={pendingUpload.schema}
+            initialSteps={pendingUpload.steps}
+            onConfirm={confirmPreparedUpload}
+            onCancel={discardPendingUpload}
+          />
+        )}
       </div>
     );
   }
@@ -520,14 +644,35 @@ const App: React.FC = () => {
                             <span className="font-extrabold text-sm md:text-lg text-[var(--color-text-main)] leading-tight">Data Genius</span>
                             <div className="flex items-center gap-1">
                                 <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
-                                <span className="text-[9px] md:text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider font-bold">
-                                    {mode === 'file' ? 'File' : (mode === 'sql' ? 'BQ' : (mode === 'timbr' ? 'KG' : 'API'))}
-                                </span>
+                                {connections.length > 1 ? (
+                                    // Source the explorer and the insights analysis work on
+                                    <select
+                                        value={activeConnection?.id}
+                                        onChange={(e) => setActiveConnectionId(e.target.value)}
+                                        className="text-[9px] md:text-[10px] text-[var(--color-text-muted)] font-bold bg-transparent focus:outline-none cursor-pointer max-w-[140px]"
+                                        title="מקור פעיל לסייר ולניתוח"
+                                    >
+                                        {connections.map(c => <option key={c.id} value={c.id}>{CONNECTION_KIND_LABELS[c.kind]} · {c.label}</option>)}
+                                    </select>
+                                ) : (
+                                    <span className="text-[9px] md:text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider font-bold">
+                                        {activeConnection && CONNECTION_KIND_LABELS[activeConnection.kind]}
+                                    </span>
+                                )}
                             </div>
                         </div>
                      </div>
                      
                      <div className="flex items-center gap-1">
+                        <button 
+                            onClick={() => setIsConnected(false)}
+                            className="p-2 md:px-3 md:py-2 rounded-xl bg-[var(--color-surface-200)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-300)] transition-all text-xs font-bold flex items-center gap-1 border border-[var(--color-border-glass)]"
+                            title="הוסף מקור נתונים"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+                            <span className="hidden md:inline">מקור</span>
+                        </button>
+
                         <button 
                             onClick={() => setIsExplorerOpen(true)}
                             className="p-2 md:px-4 md:py-2 rounded-xl bg-[var(--color-surface-200)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-300)] transition-all text-xs font-bold flex items-center gap-2 border border-[var(--color-border-glass)] justify-center"
@@ -537,6 +682,20 @@ const App: React.FC = () => {
                             <span className="hidden md:inline">סייר</span>
                         </button>
                         
+                        {fileConnections.length > 0 && (
+                          <button 
+                              onClick={() => setIsRelationshipsOpen(true)}
+                              className="p-2 md:px-3 md:py-2 rounded-xl bg-[var(--color-surface-200)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-300)] transition-all text-xs font-bold flex items-center gap-1 relative border border-[var(--color-border-glass)]"
+                              title="קשרים בין קבצים"
+                          >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+                              <span className="hidden md:inline">קשרים</span>
+                              {suggestedRelationships.length > 0 && (
+                                  <span className="absolute -top-1 -right-1 w-4 h-4 bg-[var(--color-primary)] text-white text-[10px] flex items-center justify-center rounded-full font-bold">{suggestedRelationships.length}</span>
+                              )}
+                          </button>
+                        )}
+
                         <button 
                             onClick={() => setIsFavoritesOpen(true)}
                             className="p-2 md:px-3 md:py-2 rounded-xl bg-[var(--color-surface-200)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-300)] transition-all relative border border-[var(--color-border-glass)]"
@@ -632,16 +791,22 @@ const App: React.FC = () => {
 
         {/* Main Content */}
         <main className="max-w-[1600px] mx-auto p-4 md:p-6 space-y-6">
+            {connections.filter(c => schemaChanges[c.id]).map(c => (
+              <SchemaChangeBanner
+                key={c.id}
+                diff={schemaChanges[c.id]}
+                widgets={widgets.filter(w => findWidgetConnection(connections, w)?.id === c.id)}
+                source={connections.length > 1 ? c.label : undefined}
+                onDismiss={() => setSchemaChanges(prev => without(prev, c.id))}
+              />
+            ))}
             <FuturisticBentoGrid 
                widgets={widgets}
-               baseUrl={mode === 'file' ? 'LOCAL_FILE_MODE' : (mode === 'sql' ? 'BigQuery' : (mode === 'timbr' ? 'Timbr' : baseUrl))}
-               username={username}
-               password={password}
-               connectionParams={connectionParams} // Pass explicit connection details
+               connections={connections}
+               auths={auths}
                onRemove={handleRemoveWidget}
                onUpdate={handleUpdateWidget}
                onDrillDown={(c) => setDrillConfig(c)}
-               fileData={fileData}
             />
         </main>
 
@@ -681,29 +846,39 @@ const App: React.FC = () => {
              </div>
         )}
 
+        {/* File Relationships Modal */}
+        {isRelationshipsOpen && (
+            <RelationshipsModal
+              connections={fileConnections}
+              relationships={relationships}
+              suggestions={suggestedRelationships}
+              onAdd={addRelationship}
+              onRemove={removeRelationship}
+              onClose={() => setIsRelationshipsOpen(false)}
+            />
+        )}
+
         {/* Drill Down Modal */}
-        {drillConfig && (
+        {drillConfig && drillConnection && (
             <DrillDownModal 
                isOpen={!!drillConfig} 
                config={drillConfig} 
-               baseUrl={baseUrl}
-               username={username}
-               password={password}
+               connection={drillConnection}
+               auth={auths[drillConnection.id]}
                onClose={() => setDrillConfig(null)} 
             />
         )}
 
         {/* Data Explorer Modal */}
-        {isExplorerOpen && schema && (
+        {isExplorerOpen && activeConnection && (
             <DataExplorerModal
               isOpen={isExplorerOpen}
               onClose={() => setIsExplorerOpen(false)}
-              schema={schema}
-              baseUrl={baseUrl}
-              username={username}
-              password={password}
-              localData={mode === 'file' ? fileData : undefined}
-              mode={mode}
+              schema={activeConnection.schema}
+              baseUrl={activeConnection.baseUrl || ''}
+              auth={auths[activeConnection.id]}
+              dataset={activeConnection.dataset}
+              mode={activeConnection.kind}
             />
         )}
 
@@ -715,7 +890,7 @@ const App: React.FC = () => {
              loading={isInsightsLoading}
              onSave={handleSaveReport}
              isSaved={analysisResult ? savedReports.some(r => r.id === analysisResult.id) : false}
-             onDrillDown={handleInsightsDrillDown}
+             onDrillDown={activeConnection && canDrillDown(activeConnection) ? handleInsightsDrillDown : undefined}
         />
     </div>
   );
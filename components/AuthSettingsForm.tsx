@@ -0,0 +1,114 @@
+
+import React from 'react';
+import { AuthConfig } from '../types';
+
+interface AuthSettingsFormProps {
+  value: AuthConfig;
+  onChange: (config: AuthConfig) => void;
+}
+
+const AUTH_TYPES: { type: AuthConfig['type']; label: string }[] = [
+  { type: 'none', label: 'ללא' },
+  { type: 'basic', label: 'Basic' },
+  { type: 'bearer', label: 'Bearer' },
+  { type: 'apiKey', label: 'API Key' },
+  { type: 'oauth2', label: 'OAuth2' }
+];
+
+// Fresh config for a newly selected auth type
+const defaultsFor = (type: AuthConfig['type']): AuthConfig => {
+  switch (type) {
+    case 'basic': return { type, username: '', password: '' };
+    case 'bearer': return { type, token: '' };
+    case 'apiKey': return { type, headerName: 'X-API-Key', apiKey: '' };
+    case 'oauth2': return { type, grantType: 'client_credentials', tokenUrl: '', clientId: '', clientSecret: '', scope: '' };
+    default: return { type: 'none' };
+  }
+};
+
+const inputClass = "w-full bg-[var(--color-surface-100)] border border-[var(--color-border-glass)] rounded-xl p-3 focus:ring-2 focus:ring-[var(--color-primary)] focus:outline-none text-[var(--color-text-main)] placeholder-gray-400 text-left transition-all text-base";
+const labelClass = "block text-xs font-bold text-[var(--color-text-muted)] mb-1 uppercase tracking-wider";
+
+export const AuthSettingsForm: React.FC<AuthSettingsFormProps> = ({ value, onChange }) => {
+  // Patch fields of the current config without losing its discriminant
+  const update = (patch: Record<string, string>) => onChange({ ...value, ...patch } as AuthConfig);
+
+  const field = (label: string, key: string, current: string | undefined, type = 'text', placeholder?: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type={type}
+        value={current || ''}
+        onChange={(e) => update({ [key]: e.target.value })}
+        className={inputClass}
+        dir="ltr"
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>שיטת הזדהות</label>
+        <div className="flex p-1 bg-[var(--color-surface-200)]/50 rounded-xl border border-[var(--color-border-glass)] gap-1 overflow-x-auto no-scrollbar">
+          {AUTH_TYPES.map(option => (
+            <button
+              key={option.type}
+              type="button"
+              onClick={() => option.type !== value.type && onChange(defaultsFor(option.type))}
+              className={`flex-1 min-w-[52px] py-1.5 text-xs font-medium rounded-lg transition-all whitespace-nowrap ${value.type === option.type ? 'bg-[var(--color-surface-100)] shadow-sm text-[var(--color-primary)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-main)]'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {value.type === 'basic' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {field('שם משתמש', 'username', value.username, 'text', 'אופציונלי')}
+          {field('סיסמא', 'password', value.password, 'password', 'אופציונלי')}
+        </div>
+      )}
+
+      {value.type === 'bearer' && field('Access Token', 'token', value.token, 'password')}
+
+      {value.type === 'apiKey' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {field('שם ה-Header', 'headerName', value.headerName)}
+          {field('מפתח', 'apiKey', value.apiKey, 'password')}
+        </div>
+      )}
+
+      {value.type === 'oauth2' && (
+        <>
+          <div>
+            <label className={labelClass}>Grant Type</label>
+            <select
+              value={value.grantType}
+              onChange={(e) => update({ grantType: e.target.value })}
+              className={inputClass}
+              dir="ltr"
+            >
+              <option value="client_credentials">Client Credentials</option>
+              <option value="password">Password</option>
+            </select>
+          </div>
+          {field('Token URL', 'tokenUrl', value.tokenUrl, 'url', 'https://login.example.com/oauth2/token')}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {field('Client ID', 'clientId', value.clientId)}
+            {field('Client Secret', 'clientSecret', value.clientSecret, 'password')}
+          </div>
+          {field('Scope', 'scope', value.scope, 'text', 'אופציונלי')}
+          {value.grantType === 'password' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {field('שם משתמש', 'username', value.username)}
+              {field('סיסמא', 'password', value.password, 'password')}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
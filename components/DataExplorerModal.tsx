@@ -1,29 +1,46 @@
 
 import React, { useEffect, useState } from 'react';
-import { DatabaseSchema, SchemaEntity, DataPoint } from '../types';
-import { executeODataQuery, fetchEntityCount } from '../services/odataService';
-import { executeLocalQuery } from '../services/fileService';
+import { DatabaseSchema, SchemaEntity, SchemaField, SchemaOperation, DataPoint, LocalDataset, NavigationCardinality } from '../types';
+import {
+  executeODataQuery, fetchEntityCount, getServiceVersion,
+  updateODataEntity, createODataEntity, deleteODataEntity, fetchODataEntity
+} from '../services/odataService';
 import { executeMockSqlQuery } from '../services/mockSqlService';
 import { executeMockTimbrQuery } from '../services/mockTimbrService';
+import { AuthStrategy } from '../services/authService';
+import { isAbortError } from '../services/requestControl';
+import { ODataError } from '../services/odataErrors';
+import { isEditableField, parseEdmInput, formatEdmInput } from '../services/edmTypes';
+import { EditConflictDialog } from './EditConflictDialog';
+import { OperationPanel } from './OperationPanel';
 
 interface DataExplorerModalProps {
   isOpen: boolean;
   onClose: () => void;
   schema: DatabaseSchema;
   baseUrl: string;
-  username?: string;
-  password?: string;
-  localData?: DataPoint[];
+  auth?: AuthStrategy;
+  dataset?: LocalDataset; // File mode
   mode: 'odata' | 'file' | 'sql' | 'timbr';
 }
 
-export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, onClose, schema, baseUrl, username, password, localData, mode }) => {
+export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, onClose, schema, baseUrl, auth, dataset, mode }) => {
   const [selectedEntity, setSelectedEntity] = useState<SchemaEntity | null>(null);
+  // Function / action import shown instead of an entity
+  const [selectedOperation, setSelectedOperation] = useState<SchemaOperation | null>(null);
   const [data, setData] = useState<DataPoint[]>([]);
   const [totalCount, setTotalCount] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'data' | 'metadata'>('data');
 
+  // Inline editing. rowIndex null means the draft is a new record
+  const [editing, setEditing] = useState<{ rowIndex: number | null; draft: Record<string, string>; errors: Record<string, string> } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [writeError, setWriteError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<number | null>(null);
+  // A write rejected with 412 Precondition Failed, waiting for the user to resolve it
+  const [conflict, setConflict] = useState<{ action: 'update' | 'delete'; rowIndex: number; changes: DataPoint; server: DataPoint } | null>(null);
+
   // Select first entity by default when opening
   useEffect(() => {
     if (isOpen && schema.entities.length > 0 && !selectedEntity) {
@@ -33,47 +50,281 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
 
   useEffect(() => {
     if (selectedEntity && isOpen) {
+      // Switching entity aborts the previous entity's requests so their late responses are discarded
+      const controller = new AbortController();
+      const { signal } = controller;
       const fetchData = async () => {
         setLoading(true);
         setData([]);
         setTotalCount(null);
+        setEditing(null);
+        setPendingDelete(null);
+        setWriteError(null);
         try {
-          if (mode === 'file' && localData) {
-            // Local Mode Execution
-            const result = executeLocalQuery(localData, `/${selectedEntity.name}?$top=100`);
+          if (mode === 'file' && dataset) {
+            // Local Mode Execution (in the file's worker)
+            const result = await dataset.query(`/${selectedEntity.name}?$top=100`, { signal });
+            if (signal.aborted) return;
             setData(result);
-            setTotalCount(localData.length);
+            setTotalCount(dataset.rowCounts[selectedEntity.name] ?? 0);
           } else if (mode === 'sql') {
-             // SQL Mock Execution
-             const result = await executeMockSqlQuery(`SELECT * FROM ${selectedEntity.name} LIMIT 100`);
+             // SQL Mock Execution (on its seeded dataset)
+             const [result, [count]] = await Promise.all([
+               executeMockSqlQuery(`SELECT * FROM ${selectedEntity.name} LIMIT 100`, undefined, undefined, { signal }),
+               executeMockSqlQuery(`SELECT COUNT(*) AS total FROM ${selectedEntity.name}`, undefined, undefined, { signal })
+             ]);
+             if (signal.aborted) return;
              setData(result);
-             setTotalCount(1000); // Mock count
+             setTotalCount(Number(count?.total) || result.length);
           } else if (mode === 'timbr') {
              // Timbr Mock Execution
-             const result = await executeMockTimbrQuery(`SELECT * FROM ${selectedEntity.name} LIMIT 100`);
+             const result = await executeMockTimbrQuery(`SELECT * FROM ${selectedEntity.name} LIMIT 100`, undefined, undefined, { signal });
+             if (signal.aborted) return;
              setData(result);
              setTotalCount(500); // Mock count
           } else {
-            // OData Mode Execution
-            const result = await executeODataQuery(baseUrl, `/${selectedEntity.name}?$top=100`, username, password);
+            // OData Mode Execution - issued together so they can share one $batch
+            const [result, count] = await Promise.all([
+              executeODataQuery(baseUrl, `/${selectedEntity.name}?$top=100`, auth, { signal }),
+              fetchEntityCount(baseUrl, selectedEntity.name, auth, { signal })
+            ]);
+            if (signal.aborted) return;
             setData(result);
-
-            // Fetch count
-            const count = await fetchEntityCount(baseUrl, selectedEntity.name, username, password);
             setTotalCount(count);
           }
         } catch (error) {
-          console.error("Explorer fetch error", error);
+          if (!isAbortError(error)) console.error("Explorer fetch error", error);
         } finally {
-          setLoading(false);
+          if (!signal.aborted) setLoading(false);
         }
       };
       fetchData();
+      return () => controller.abort();
     }
-  }, [selectedEntity, baseUrl, isOpen, username, password, localData, mode]);
+  }, [selectedEntity, baseUrl, isOpen, auth, dataset, mode]);
 
   if (!isOpen) return null;
 
+  // Write controls only for OData entity sets the metadata explicitly opens for writing
+  const writable = mode === 'odata' && !!selectedEntity?.keys?.length;
+  const canUpdate = writable && selectedEntity?.updatable === true;
+  const canInsert = writable && selectedEntity?.insertable === true;
+  const canDelete = writable && selectedEntity?.deletable === true;
+  const version = getServiceVersion(baseUrl);
+
+  const operationImports = (schema.operations || []).filter(op => !op.boundTo);
+  // Operations bound to the selected entity set or to its entities
+  const boundOperations = (schema.operations || []).filter(op =>
+    op.boundTo && op.boundTo.replace(/^Collection\((.*)\)$/, '$1') === selectedEntity?.entityType);
+
+  const selectEntity = (entity: SchemaEntity) => {
+    setSelectedOperation(null);
+    setSelectedEntity(entity);
+  };
+
+  const selectOperation = (operation: SchemaOperation) => {
+    setSelectedEntity(null);
+    setSelectedOperation(operation);
+  };
+
+  const isFieldEditable = (field: SchemaField, isNew: boolean) =>
+    isEditableField(field, schema) && (isNew || !field.isKey);
+
+  const startEdit = (rowIndex: number) => {
+    if (!selectedEntity) return;
+    const draft: Record<string, string> = {};
+    selectedEntity.fields.forEach(field => {
+      if (isFieldEditable(field, false)) draft[field.name] = formatEdmInput(data[rowIndex][field.name]);
+    });
+    setWriteError(null);
+    setEditing({ rowIndex, draft, errors: {} });
+  };
+
+  const startCreate = () => {
+    if (!selectedEntity) return;
+    const draft: Record<string, string> = {};
+    selectedEntity.fields.forEach(field => {
+      if (isFieldEditable(field, true)) draft[field.name] = '';
+    });
+    setWriteError(null);
+    setEditing({ rowIndex: null, draft, errors: {} });
+  };
+
+  // Turns the draft into typed values. Edits only send changed fields; new records skip empty optional ones
+  const collectValues = (): DataPoint | null => {
+    if (!editing || !selectedEntity) return null;
+    const values: DataPoint = {};
+    const errors: Record<string, string> = {};
+    const original = editing.rowIndex !== null ? data[editing.rowIndex] : null;
+
+    Object.entries(editing.draft).forEach(([name, text]: [string, string]) => {
+      if (original && text === formatEdmInput(original[name])) return;
+      if (!original && text.trim() === '' && selectedEntity.fields.find(f => f.name === name)?.nullable !== false) return;
+      const field = selectedEntity.fields.find(f => f.name === name)!;
+      const result = parseEdmInput(text, field, schema, version);
+      if (result.error) errors[name] = result.error;
+      else values[name] = result.value;
+    });
+
+    setEditing({ ...editing, errors });
+    return Object.keys(errors).length > 0 ? null : values;
+  };
+
+  const describeWriteError = (error: any) =>
+    error instanceof ODataError && error.status ? `${error.message} (HTTP ${error.status})` : (error.message || 'הפעולה נכשלה');
+
+  // On 412 load the service's current version so the user can compare and decide
+  const openConflict = async (action: 'update' | 'delete', rowIndex: number, changes: DataPoint) => {
+    const server = await fetchODataEntity(baseUrl, selectedEntity!, data[rowIndex], auth);
+    setConflict({ action, rowIndex, changes, server });
+  };
+
+  const applyUpdate = async (rowIndex: number, changes: DataPoint, row: DataPoint, force = false) => {
+    const etag = await updateODataEntity(baseUrl, selectedEntity!, row, changes, auth, { force });
+    setData(prev => prev.map((r, i) => i === rowIndex
+      ? { ...r, ...changes, '@odata.etag': etag ?? (force ? undefined : r['@odata.etag']) }
+      : r));
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !selectedEntity) return;
+    const values = collectValues();
+    if (!values) return;
+
+    setSaving(true);
+    setWriteError(null);
+    try {
+      if (editing.rowIndex === null) {
+        const created = await createODataEntity(baseUrl, selectedEntity, values, auth);
+        setData(prev => [created, ...prev]);
+        setTotalCount(prev => prev !== null ? prev + 1 : prev);
+      } else if (Object.keys(values).length > 0) {
+        try {
+          await applyUpdate(editing.rowIndex, values, data[editing.rowIndex]);
+        } catch (error) {
+          if (error instanceof ODataError && error.status === 412) {
+            await openConflict('update', editing.rowIndex, values);
+            return;
+          }
+          throw error;
+        }
+      }
+      setEditing(null);
+    } catch (error: any) {
+      setWriteError(describeWriteError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeRow = async (rowIndex: number, row: DataPoint = data[rowIndex]) => {
+    setSaving(true);
+    setWriteError(null);
+    try {
+      await deleteODataEntity(baseUrl, selectedEntity!, row, auth);
+      setData(prev => prev.filter((_, i) => i !== rowIndex));
+      setTotalCount(prev => prev !== null ? prev - 1 : prev);
+      setPendingDelete(null);
+      setConflict(null);
+    } catch (error: any) {
+      if (error instanceof ODataError && error.status === 412) {
+        await openConflict('delete', rowIndex, {}).catch(e => setWriteError(describeWriteError(e)));
+      } else {
+        setWriteError(describeWriteError(error));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Retry against the version just read from the service, so a third change still gets caught
+  const resolveOverwrite = async () => {
+    if (!conflict) return;
+    const current = { ...data[conflict.rowIndex], '@odata.etag': conflict.server['@odata.etag'] };
+    const force = !conflict.server['@odata.etag'];
+    if (conflict.action === 'delete') {
+      await removeRow(conflict.rowIndex, force ? data[conflict.rowIndex] : current);
+      return;
+    }
+    setSaving(true);
+    try {
+      await applyUpdate(conflict.rowIndex, conflict.changes, current, force);
+      setConflict(null);
+      setEditing(null);
+    } catch (error: any) {
+      setConflict(null);
+      setWriteError(describeWriteError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resolveUseServer = () => {
+    if (!conflict) return;
+    setData(prev => prev.map((r, i) => i === conflict.rowIndex ? conflict.server : r));
+    setConflict(null);
+    setEditing(null);
+    setPendingDelete(null);
+  };
+
+  const renderEditor = (field: SchemaField) => {
+    if (!editing) return null;
+    const value = editing.draft[field.name] ?? '';
+    const error = editing.errors[field.name];
+    const enumType = findEnumType(field.type);
+    const update = (text: string) => setEditing({ ...editing, draft: { ...editing.draft, [field.name]: text } });
+    const inputClass = `w-full min-w-[120px] bg-[var(--color-surface-100)] border rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] ${error ? 'border-red-500' : 'border-[var(--color-border-glass)]'}`;
+
+    return (
+      <div>
+        {enumType || field.type === 'Edm.Boolean' ? (
+          <select value={value} onChange={(e) => update(e.target.value)} className={inputClass} dir="ltr">
+            <option value="">—</option>
+            {(enumType ? enumType.members.map(m => m.name) : ['true', 'false']).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : (
+          <input value={value} onChange={(e) => update(e.target.value)} className={inputClass} dir="ltr" placeholder={field.type.replace('Edm.', '')} />
+        )}
+        {error && <div className="text-[10px] text-red-500 mt-0.5 whitespace-normal">{error}</div>}
+      </div>
+    );
+  };
+
+  const renderEditActions = () => (
+    <div className="flex gap-1">
+      <button onClick={saveEdit} disabled={saving} className="px-2 py-1 text-xs font-bold rounded-lg bg-[var(--color-primary)] text-white disabled:opacity-50">
+        {saving ? '...' : 'שמור'}
+      </button>
+      <button onClick={() => setEditing(null)} disabled={saving} className="px-2 py-1 text-xs rounded-lg text-[var(--color-text-muted)] hover:bg-[var(--color-surface-200)]">
+        ביטול
+      </button>
+    </div>
+  );
+
+  const findEnumType = (type: string) => schema.enumTypes?.find(en => en.name === type);
+  const findComplexType = (type: string) => schema.complexTypes?.find(ct => ct.name === type);
+
+  // Complex values arrive flattened ("Address.City"); regroup them for the cell
+  const readField = (row: DataPoint, name: string) => {
+    if (name in row) return row[name];
+    const prefix = `${name}.`;
+    const nested = Object.keys(row).filter(key => key.startsWith(prefix));
+    return nested.length ? Object.fromEntries(nested.map(key => [key.substring(prefix.length), row[key]])) : undefined;
+  };
+
+  const formatCell = (value: any) => {
+    if (value === undefined || value === null) return '-';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  const cardinalityLabel: Record<NavigationCardinality, string> = {
+    one: '1',
+    zeroOrOne: '0..1',
+    many: '*'
+  };
+
   return (
     <div className="fixed inset-0 z-[100] bg-[var(--color-surface-100)] flex flex-col animate-in slide-in-from-bottom duration-500 font-[Heebo]">
         
@@ -106,7 +357,7 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
               {schema.entities.map((entity) => (
                 <li key={entity.name} className="flex-shrink-0">
                   <button
-                    onClick={() => setSelectedEntity(entity)}
+                    onClick={() => selectEntity(entity)}
                     className={`w-auto md:w-full text-right px-4 py-2 md:py-3 rounded-xl text-sm font-medium transition-all whitespace-nowrap
                       ${selectedEntity?.name === entity.name 
                         ? 'bg-[var(--color-primary)]/10 text-[var(--color-primary)] shadow-sm ring-1 ring-[var(--color-primary)]/20' 
@@ -118,11 +369,36 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
                 </li>
               ))}
             </ul>
+
+            {operationImports.length > 0 && (
+              <>
+                <h3 className="text-xs font-bold text-[var(--color-text-muted)] uppercase tracking-wider mt-6 mb-2 md:mb-4 px-2 hidden md:block">פונקציות ופעולות ({operationImports.length})</h3>
+                <ul className="flex md:block gap-2 md:space-y-1">
+                  {operationImports.map((operation) => (
+                    <li key={operation.name} className="flex-shrink-0">
+                      <button
+                        onClick={() => selectOperation(operation)}
+                        className={`w-auto md:w-full text-right px-4 py-2 md:py-3 rounded-xl text-sm font-medium transition-all whitespace-nowrap flex items-center justify-between gap-2
+                          ${selectedOperation?.name === operation.name
+                            ? 'bg-[var(--color-primary)]/10 text-[var(--color-primary)] shadow-sm ring-1 ring-[var(--color-primary)]/20'
+                            : 'text-[var(--color-text-muted)] bg-[var(--color-surface-200)] md:bg-transparent hover:bg-[var(--color-surface-200)] hover:text-[var(--color-text-main)]'}
+                        `}
+                      >
+                        <span>{operation.name}</span>
+                        <span className="text-[10px] font-mono opacity-60">{operation.kind === 'function' ? 'ƒ' : '⚡'}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
           </div>
 
           {/* Main Content Area */}
           <div className="flex-1 flex flex-col overflow-hidden bg-[var(--color-surface-100)] relative">
-            
+            {selectedOperation ? (
+              <OperationPanel operation={selectedOperation} schema={schema} baseUrl={baseUrl} auth={auth} />
+            ) : (<>
             {/* Toolbar / Tabs */}
             <div className="flex items-center justify-between px-4 md:px-8 py-3 md:py-4 bg-[var(--color-surface-glass)] border-b border-[var(--color-border-glass)] shrink-0 z-10 overflow-x-auto">
                <div className="flex gap-6 md:gap-8">
@@ -143,9 +419,20 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
                </div>
                
                {selectedEntity && (
+                 <div className="flex items-center gap-2">
+                 {canInsert && activeTab === 'data' && (
+                   <button
+                     onClick={startCreate}
+                     disabled={!!editing}
+                     className="text-xs font-bold px-3 py-1.5 rounded-lg bg-[var(--color-primary)]/10 text-[var(--color-primary)] hover:bg-[var(--color-primary)]/20 transition-colors disabled:opacity-50 whitespace-nowrap"
+                   >
+                     + רשומה חדשה
+                   </button>
+                 )}
                  <div className="text-[10px] md:text-xs font-mono text-[var(--color-text-main)] bg-[var(--color-surface-200)] px-2 py-1 md:px-3 md:py-1.5 rounded-lg border border-[var(--color-border-glass)] whitespace-nowrap">
                     {loading ? 'טוען ספירה...' : `סה"כ: ${totalCount !== null ? totalCount.toLocaleString() : '?'}`}
                  </div>
+                 </div>
                )}
             </div>
 
@@ -165,13 +452,22 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
 
               {activeTab === 'data' && (
                 <div className="flex-1 flex flex-col overflow-hidden bg-[var(--color-surface-glass)] border border-[var(--color-border-glass)] rounded-2xl shadow-sm">
-                  {data.length === 0 && !loading ? (
+                  {writeError && (
+                    <div className="flex items-center justify-between gap-2 px-4 py-2 text-sm bg-red-500/10 text-red-600 dark:text-red-400 border-b border-red-500/20">
+                      <span>{writeError}</span>
+                      <button onClick={() => setWriteError(null)} className="text-xs opacity-70 hover:opacity-100">✕</button>
+                    </div>
+                  )}
+                  {data.length === 0 && !loading && editing?.rowIndex !== null ? (
                     <div className="flex items-center justify-center h-full text-[var(--color-text-muted)]">אין נתונים להצגה בטבלה זו</div>
                   ) : (
                     <div className="flex-1 overflow-auto">
                         <table className="min-w-full divide-y divide-[var(--color-border-glass)] text-sm text-right border-collapse">
                           <thead className="bg-[var(--color-surface-200)] sticky top-0 z-10 ring-1 ring-[var(--color-border-glass)]">
                             <tr>
+                              {(canUpdate || canDelete) || editing ? (
+                                <th className="px-3 py-3 bg-[var(--color-surface-200)] border-b border-[var(--color-border-glass)] w-px"></th>
+                              ) : null}
                               {selectedEntity?.fields.map(field => (
                                 <th key={field.name} className="px-4 py-3 md:px-6 md:py-4 font-bold text-[var(--color-text-muted)] whitespace-nowrap bg-[var(--color-surface-200)] border-b border-[var(--color-border-glass)]">
                                   {field.name}
@@ -180,15 +476,48 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
                             </tr>
                           </thead>
                           <tbody className="divide-y divide-[var(--color-border-glass)]">
-                            {data.map((row, idx) => (
-                              <tr key={idx} className="hover:bg-[var(--color-primary)]/5 transition-colors group">
+                            {editing?.rowIndex === null && (
+                              <tr className="bg-[var(--color-primary)]/5">
+                                <td className="px-3 py-2 align-top">{renderEditActions()}</td>
+                                {selectedEntity?.fields.map(field => (
+                                  <td key={`new-${field.name}`} className="px-4 py-2 align-top">
+                                    {isFieldEditable(field, true) ? renderEditor(field) : <span className="text-xs text-[var(--color-text-muted)]">אוטומטי</span>}
+                                  </td>
+                                ))}
+                              </tr>
+                            )}
+                            {data.map((row, idx) => {
+                              const isEditingRow = editing?.rowIndex === idx;
+                              return (
+                              <tr key={idx} className={`transition-colors group ${isEditingRow ? 'bg-[var(--color-primary)]/5' : 'hover:bg-[var(--color-primary)]/5'}`}>
+                                {(canUpdate || canDelete) || editing ? (
+                                  <td className="px-3 py-2 align-top whitespace-nowrap">
+                                    {isEditingRow ? renderEditActions() : pendingDelete === idx ? (
+                                      <div className="flex gap-1 items-center text-xs">
+                                        <span className="text-red-500 font-bold">למחוק?</span>
+                                        <button onClick={() => removeRow(idx)} disabled={saving} className="px-2 py-1 rounded-lg bg-red-500 text-white font-bold disabled:opacity-50">כן</button>
+                                        <button onClick={() => setPendingDelete(null)} disabled={saving} className="px-2 py-1 rounded-lg text-[var(--color-text-muted)] hover:bg-[var(--color-surface-200)]">לא</button>
+                                      </div>
+                                    ) : (
+                                      <div className="flex gap-1 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                                        {canUpdate && (
+                                          <button onClick={() => startEdit(idx)} disabled={!!editing} title="עריכה" className="p-1 rounded text-[var(--color-text-muted)] hover:text-[var(--color-primary)] disabled:opacity-30">✎</button>
+                                        )}
+                                        {canDelete && (
+                                          <button onClick={() => setPendingDelete(idx)} disabled={!!editing} title="מחיקה" className="p-1 rounded text-[var(--color-text-muted)] hover:text-red-500 disabled:opacity-30">🗑</button>
+                                        )}
+                                      </div>
+                                    )}
+                                  </td>
+                                ) : null}
                                 {selectedEntity?.fields.map(field => (
-                                  <td key={`${idx}-${field.name}`} className="px-4 py-2 md:px-6 md:py-3 text-[var(--color-text-main)] whitespace-nowrap group-hover:text-[var(--color-primary)] transition-colors">
-                                    {row[field.name] !== undefined ? String(row[field.name]) : '-'}
+                                  <td key={`${idx}-${field.name}`} className={`px-4 py-2 md:px-6 md:py-3 text-[var(--color-text-main)] whitespace-nowrap transition-colors ${isEditingRow ? 'align-top' : 'group-hover:text-[var(--color-primary)]'}`}>
+                                    {isEditingRow && field.name in editing!.draft ? renderEditor(field) : formatCell(readField(row, field.name))}
                                   </td>
                                 ))}
                               </tr>
-                            ))}
+                              );
+                            })}
                           </tbody>
                         </table>
                     </div>
@@ -198,29 +527,115 @@ export const DataExplorerModal: React.FC<DataExplorerModalProps> = ({ isOpen, on
               )}
 
               {activeTab === 'metadata' && selectedEntity && (
-                <div className="flex-1 overflow-y-auto">
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6 pb-6">
-                    {selectedEntity.fields.map((field) => (
+                <div className="flex-1 overflow-y-auto space-y-6 pb-6">
+                    {selectedEntity.entityType && (
+                      <div className="flex flex-wrap items-center gap-2 text-xs font-mono text-[var(--color-text-muted)]">
+                        <span className="bg-[var(--color-surface-200)] px-2 py-1 rounded border border-[var(--color-border-glass)]" dir="ltr">{selectedEntity.entityType}</span>
+                        {selectedEntity.keys && selectedEntity.keys.length > 0 && (
+                          <span className="bg-amber-500/10 text-amber-600 dark:text-amber-400 px-2 py-1 rounded" dir="ltr">
+                            מפתח: {selectedEntity.keys.join(', ')}
+                          </span>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6">
+                    {selectedEntity.fields.map((field) => {
+                        const enumType = findEnumType(field.type);
+                        const complexType = findComplexType(field.type);
+                        return (
                         <div key={field.name} className="bg-[var(--color-surface-glass)] backdrop-blur-md p-4 md:p-6 rounded-2xl border border-[var(--color-border-glass)] hover:border-[var(--color-primary)]/50 hover:shadow-lg transition-all group h-full">
-                        <div className="flex justify-between items-start mb-2">
-                            <div className="font-bold text-[var(--color-text-main)] text-base md:text-lg group-hover:text-[var(--color-primary)] transition-colors">{field.name}</div>
-                            <div className="text-[10px] font-mono text-[var(--color-primary)] bg-[var(--color-primary)]/10 px-2 py-1 rounded uppercase tracking-wider">
+                        <div className="flex justify-between items-start mb-2 gap-2">
+                            <div className="font-bold text-[var(--color-text-main)] text-base md:text-lg group-hover:text-[var(--color-primary)] transition-colors flex items-center gap-1.5">
+                                {field.isKey && <span title="מפתח ראשי" className="text-amber-500 text-sm">🔑</span>}
+                                {field.name}
+                            </div>
+                            <div className="text-[10px] font-mono text-[var(--color-primary)] bg-[var(--color-primary)]/10 px-2 py-1 rounded uppercase tracking-wider break-all" dir="ltr">
                                 {field.type}
                             </div>
                         </div>
+                        {field.nullable === false && (
+                            <span className="inline-block text-[10px] font-bold text-rose-500 bg-rose-500/10 px-1.5 py-0.5 rounded">חובה</span>
+                        )}
                         {field.description ? (
                             <p className="text-sm text-[var(--color-text-muted)] mt-2 leading-relaxed">{field.description}</p>
                         ) : (
                             <p className="text-xs text-[var(--color-text-muted)] italic mt-4 opacity-50">אין תיאור זמין</p>
                         )}
+                        {enumType && (
+                            <div className="mt-3 flex flex-wrap gap-1" dir="ltr">
+                                {enumType.members.map(m => (
+                                    <span key={m.name} title={m.value} className="text-[10px] font-mono bg-[var(--color-surface-200)] text-[var(--color-text-main)] px-1.5 py-0.5 rounded">{m.name}</span>
+                                ))}
+                            </div>
+                        )}
+                        {complexType && (
+                            <ul className="mt-3 space-y-1 text-xs font-mono text-[var(--color-text-muted)]" dir="ltr">
+                                {complexType.fields.map(f => (
+                                    <li key={f.name}>{field.name}/{f.name} <span className="opacity-60">{f.type}</span></li>
+                                ))}
+                            </ul>
+                        )}
                         </div>
-                    ))}
+                        );
+                    })}
                     </div>
+
+                    {selectedEntity.navigationProperties && selectedEntity.navigationProperties.length > 0 && (
+                      <div>
+                        <h4 className="text-xs font-bold text-[var(--color-text-muted)] uppercase tracking-wider mb-3">קשרים ({selectedEntity.navigationProperties.length})</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                          {selectedEntity.navigationProperties.map(nav => (
+                            <div key={nav.name} className="flex items-center justify-between gap-2 bg-[var(--color-surface-glass)] p-3 rounded-xl border border-[var(--color-border-glass)]">
+                              <span className="font-bold text-sm text-[var(--color-text-main)]">{nav.name}</span>
+                              <span className="text-[10px] font-mono text-[var(--color-secondary)] bg-[var(--color-secondary)]/10 px-2 py-1 rounded" dir="ltr">
+                                {cardinalityLabel[nav.cardinality]} → {nav.targetEntitySet || nav.targetType}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {boundOperations.length > 0 && (
+                      <div>
+                        <h4 className="text-xs font-bold text-[var(--color-text-muted)] uppercase tracking-wider mb-3">פונקציות ופעולות קשורות ({boundOperations.length})</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {boundOperations.map(op => (
+                            <div key={`${op.name}-${op.boundTo}`} className="bg-[var(--color-surface-glass)] p-3 rounded-xl border border-[var(--color-border-glass)]">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-bold text-sm text-[var(--color-text-main)] font-mono" dir="ltr">
+                                  {op.name}({op.parameters.map(p => `${p.name}: ${p.type.replace('Edm.', '')}`).join(', ')})
+                                </span>
+                                <span className="text-[10px] font-bold text-[var(--color-text-muted)] bg-[var(--color-surface-200)] px-2 py-1 rounded">{op.kind === 'function' ? 'פונקציה' : 'פעולה'}</span>
+                              </div>
+                              <div className="text-[10px] font-mono text-[var(--color-secondary)] mt-1" dir="ltr">
+                                {op.boundTo!.startsWith('Collection(') ? 'על האוסף' : 'על רשומה'} → {op.returnType || 'void'}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                 </div>
               )}
             </div>
+            </>)}
           </div>
         </div>
+
+        {conflict && (
+          <EditConflictDialog
+            action={conflict.action}
+            original={data[conflict.rowIndex]}
+            changes={conflict.changes}
+            server={conflict.server}
+            busy={saving}
+            onOverwrite={resolveOverwrite}
+            onUseServer={resolveUseServer}
+            onCancel={() => setConflict(null)}
+          />
+        )}
     </div>
   );
 };
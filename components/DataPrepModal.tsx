@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import { DataPoint, DatabaseSchema, LocalDataset, NormalizeMode, PrepStep, PreparedData } from '../types';
+
+interface DataPrepModalProps {
+  fileName: string;
+  dataset: LocalDataset;
+  schema: DatabaseSchema; // As uploaded
+  initialSteps: PrepStep[]; // The recipe saved for this file name, if any
+  onConfirm: (steps: PrepStep[], schema: DatabaseSchema) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+const TYPE_LABELS: Record<string, string> = {
+  'Edm.String': 'טקסט',
+  'Edm.Int32': 'מספר שלם',
+  'Edm.Int64': 'מספר שלם',
+  'Edm.Double': 'מספר עשרוני',
+  'Edm.Boolean': 'כן/לא',
+  'Edm.Date': 'תאריך',
+  'Edm.DateTimeOffset': 'תאריך ושעה'
+};
+const RETYPE_OPTIONS = ['Edm.String', 'Edm.Int64', 'Edm.Double', 'Edm.Boolean', 'Edm.Date', 'Edm.DateTimeOffset'];
+
+const STEP_LABELS: Record<PrepStep['kind'], string> = {
+  rename: 'שינוי שם עמודה',
+  retype: 'שינוי סוג עמודה',
+  dropColumn: 'הסרת עמודה',
+  dropRows: 'הסרת שורות לפי תנאי',
+  normalize: 'ניקוי ערכים',
+  split: 'פיצול עמודה',
+  merge: 'מיזוג עמודות',
+  calculate: 'עמודה מחושבת'
+};
+
+const NORMALIZE_LABELS: Record<NormalizeMode, string> = {
+  trim: 'הסרת רווחים בקצוות',
+  collapse: 'איחוד רווחים כפולים',
+  lower: 'אותיות קטנות',
+  upper: 'אותיות גדולות'
+};
+
+// Form fields of the step being added; only those of the chosen kind are used
+interface StepDraft {
+  kind: PrepStep['kind'];
+  column: string;
+  to: string;
+  type: string;
+  filter: string;
+  mode: NormalizeMode;
+  separator: string;
+  into: string;
+  columns: string[];
+  expression: string;
+}
+
+const EMPTY_DRAFT: StepDraft = {
+  kind: 'rename', column: '', to: '', type: 'Edm.String', filter: '', mode: 'trim',
+  separator: ',', into: '', columns: [], expression: ''
+};
+
+const toStep = (entity: string, d: StepDraft): PrepStep => {
+  switch (d.kind) {
+    case 'rename': return { kind: 'rename', entity, column: d.column, to: d.to.trim() };
+    case 'retype': return { kind: 'retype', entity, column: d.column, type: d.type };
+    case 'dropColumn': return { kind: 'dropColumn', entity, column: d.column };
+    case 'dropRows': return { kind: 'dropRows', entity, filter: d.filter.trim() };
+    case 'normalize': return { kind: 'normalize', entity, column: d.column, mode: d.mode };
+    case 'split': return { kind: 'split', entity, column: d.column, separator: d.separator, into: d.into.split(',').map(s => s.trim()).filter(Boolean) };
+    case 'merge': return { kind: 'merge', entity, columns: d.columns, separator: d.separator, into: d.into.trim() };
+    case 'calculate': return { kind: 'calculate', entity, column: d.into.trim(), expression: d.expression.trim() };
+  }
+};
+
+const describeStep = (step: PrepStep): string => {
+  switch (step.kind) {
+    case 'rename': return `"${step.column}" ← "${step.to}"`;
+    case 'retype': return `"${step.column}" ל${TYPE_LABELS[step.type] || step.type}`;
+    case 'dropColumn': return `"${step.column}"`;
+    case 'dropRows': return step.filter;
+    case 'normalize': return `"${step.column}": ${NORMALIZE_LABELS[step.mode]}`;
+    case 'split': return `"${step.column}" לפי "${step.separator}" ← ${step.into.join(', ')}`;
+    case 'merge': return `${step.columns.join(' + ')} ← "${step.into}"`;
+    case 'calculate': return `"${step.column}" = ${step.expression}`;
+  }
+};
+
+const formatCell = (value: any) => {
+  if (value === undefined || value === null) return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Preparation screen between an upload and the dashboard: rename, retype and drop columns, drop rows,
+ * clean, split and merge values and add calculated columns. The steps form a recipe that is replayed
+ * in the local data worker on every change, and again when a file of the same name pattern is uploaded.
+ */
+export const DataPrepModal: React.FC<DataPrepModalProps> = ({ fileName, dataset, schema, initialSteps, onConfirm, onCancel }) => {
+  const [steps, setSteps] = useState<PrepStep[]>(initialSteps);
+  const [prepared, setPrepared] = useState<PreparedData | null>(null);
+  const [entity, setEntity] = useState(schema.entities[0]?.name || '');
+  const [preview, setPreview] = useState<DataPoint[]>([]);
+  const [draft, setDraft] = useState<StepDraft>(EMPTY_DRAFT);
+  const [isBusy, setIsBusy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fields = prepared?.schema.entities.find(e => e.name === entity)?.fields || [];
+
+  const loadPreview = async (name: string) => {
+    setPreview(await dataset.query(`${name}?$top=${PREVIEW_ROWS}`));
+  };
+
+  /**
+   * Replays the recipe. A new last step that doesn't fit the data is rejected rather than recorded.
+   */
+  const applySteps = async (next: PrepStep[], isNewStep: boolean) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      let result = await dataset.prepare(next, schema);
+      const problem = isNewStep && result.problems.find(p => p.step === next.length - 1);
+      if (problem) {
+        setError(problem.message);
+        result = await dataset.prepare(steps, schema);
+      } else {
+        setSteps(next);
+        if (isNewStep) setDraft(d => ({ ...EMPTY_DRAFT, kind: d.kind }));
+      }
+      setPrepared(result);
+      await loadPreview(entity);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    applySteps(initialSteps, false);
+  }, []);
+
+  const switchEntity = async (name: string) => {
+    setEntity(name);
+    setDraft(d => ({ ...EMPTY_DRAFT, kind: d.kind }));
+    setIsBusy(true);
+    try {
+      await loadPreview(name);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const update = (changes: Partial<StepDraft>) => setDraft(d => ({ ...d, ...changes }));
+  const column = draft.column || fields[0]?.name || '';
+
+  const inputClass = "w-full bg-[var(--color-surface-100)] border border-[var(--color-border-glass)] rounded-lg px-2 py-1.5 text-sm text-[var(--color-text-main)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]";
+  const needsColumn = ['rename', 'retype', 'dropColumn', 'normalize', 'split'].includes(draft.kind);
+
+  const renderDraftFields = () => (
+    <>
+      {needsColumn && (
+        <select value={column} onChange={(e) => update({ column: e.target.value })} className={inputClass}>
+          {fields.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+        </select>
+      )}
+      {draft.kind === 'rename' && (
+        <input value={draft.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} placeholder="שם חדש" />
+      )}
+      {draft.kind === 'retype' && (
+        <select value={draft.type} onChange={(e) => update({ type: e.target.value })} className={inputClass}>
+          {RETYPE_OPTIONS.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+        </select>
+      )}
+      {draft.kind === 'dropRows' && (
+        <input value={draft.filter} onChange={(e) => update({ filter: e.target.value })} className={inputClass} dir="ltr" placeholder="Amount lt 0 or Name eq null" />
+      )}
+      {draft.kind === 'normalize' && (
+        <select value={draft.mode} onChange={(e) => update({ mode: e.target.value as NormalizeMode })} className={inputClass}>
+          {(Object.keys(NORMALIZE_LABELS) as NormalizeMode[]).map(m => <option key={m} value={m}>{NORMALIZE_LABELS[m]}</option>)}
+        </select>
+      )}
+      {draft.kind === 'merge' && (
+        <select multiple value={draft.columns} onChange={(e) => update({ columns: Array.from(e.target.selectedOptions, (o: HTMLOptionElement) => o.value) })} className={`${inputClass} h-24`}>
+          {fields.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+        </select>
+      )}
+      {(draft.kind === 'split' || draft.kind === 'merge') && (
+        <input value={draft.separator} onChange={(e) => update({ separator: e.target.value })} className={inputClass} dir="ltr" placeholder="תו מפריד" />
+      )}
+      {(draft.kind === 'split' || draft.kind === 'merge' || draft.kind === 'calculate') && (
+        <input
+          value={draft.into}
+          onChange={(e) => update({ into: e.target.value })}
+          className={inputClass}
+          placeholder={draft.kind === 'split' ? 'שמות העמודות החדשות, מופרדים בפסיק' : 'שם העמודה החדשה'}
+        />
+      )}
+      {draft.kind === 'calculate' && (
+        <input value={draft.expression} onChange={(e) => update({ expression: e.target.value })} className={inputClass} dir="ltr" placeholder="Price mul Quantity" />
+      )}
+    </>
+  );
+
+  const problemOf = (index: number) => prepared?.problems.find(p => p.step === index);
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[var(--color-surface-100)] rounded-2xl shadow-2xl border border-[var(--color-border-glass)] w-full max-w-6xl h-[90vh] flex flex-col text-right">
+        <div className="p-5 border-b border-[var(--color-border-glass)]">
+          <h3 className="text-lg font-extrabold text-[var(--color-text-main)]">הכנת הנתונים · {fileName}</h3>
+          <p className="text-sm text-[var(--color-text-muted)] mt-1">
+            השלבים נשמרים כמתכון ויוחלו שוב בהעלאת קובץ באותו שם (למשל הקובץ של החודש הבא).
+            {initialSteps.length > 0 && ` הוחל מתכון שמור (${initialSteps.length} שלבים).`}
+          </p>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          {/* Recipe */}
+          <div className="md:w-80 shrink-0 border-b md:border-b-0 md:border-l border-[var(--color-border-glass)] p-4 overflow-y-auto space-y-4">
+            <div className="space-y-2">
+              <select value={draft.kind} onChange={(e) => update({ kind: e.target.value as PrepStep['kind'] })} className={`${inputClass} font-bold`}>
+                {(Object.keys(STEP_LABELS) as PrepStep['kind'][]).map(k => <option key={k} value={k}>{STEP_LABELS[k]}</option>)}
+              </select>
+              {renderDraftFields()}
+              {draft.kind === 'calculate' && (
+                <p className="text-[11px] text-[var(--color-text-muted)]">ביטוי בתחביר OData: add, sub, mul, div, concat(), year(), round() ועוד.</p>
+              )}
+              <button
+                onClick={() => applySteps([...steps, toStep(entity, { ...draft, column })], true)}
+                disabled={isBusy || !entity}
+                className="w-full py-2 rounded-xl text-sm font-bold bg-[var(--color-primary)] text-white hover:opacity-90 transition-opacity disabled:opacity-40"
+              >
+                הוסף שלב
+              </button>
+              {error && <div className="text-xs text-red-500">{error}</div>}
+            </div>
+
+            <div>
+              <h4 className="text-xs font-bold text-[var(--color-text-muted)] mb-2">מתכון</h4>
+              {steps.length === 0 ? (
+                <p className="text-sm text-[var(--color-text-muted)]">הנתונים ייטענו כפי שהועלו.</p>
+              ) : (
+                <ol className="space-y-1.5">
+                  {steps.map((step, i) => (
+                    <li key={i} className={`flex items-start gap-2 p-2 rounded-lg border text-sm ${problemOf(i) ? 'border-red-500/50 bg-red-500/5' : 'border-[var(--color-border-glass)]'}`}>
+                      <span className="text-[var(--color-text-muted)] text-xs mt-0.5">{i + 1}.</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-bold text-[var(--color-text-main)]">{STEP_LABELS[step.kind]}</div>
+                        <div className="text-xs text-[var(--color-text-muted)] break-words">
+                          {schema.entities.length > 1 && `${step.entity}: `}{describeStep(step)}
+                        </div>
+                        {problemOf(i) && <div className="text-xs text-red-500">{problemOf(i)!.message} (השלב דולג)</div>}
+                      </div>
+                      <button
+                        onClick={() => applySteps(steps.filter((_, j) => j !== i), false)}
+                        disabled={isBusy}
+                        className="text-[var(--color-text-muted)] hover:text-red-500 px-1"
+                        title="הסר שלב"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {schema.entities.length > 1 && (
+              <div className="flex gap-1 p-2 border-b border-[var(--color-border-glass)] overflow-x-auto no-scrollbar">
+                {schema.entities.map(e => (
+                  <button
+                    key={e.name}
+                    onClick={() => switchEntity(e.name)}
+                    className={`px-3 py-1.5 text-sm rounded-lg whitespace-nowrap transition-all ${e.name === entity ? 'bg-[var(--color-primary)]/10 text-[var(--color-primary)] font-bold' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-main)]'}`}
+                  >
+                    {e.label || e.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className={`flex-1 overflow-auto transition-opacity ${isBusy ? 'opacity-50' : ''}`}>
+              <table className="min-w-full divide-y divide-[var(--color-border-glass)] text-sm text-right border-collapse">
+                <thead className="bg-[var(--color-surface-200)] sticky top-0 z-10">
+                  <tr>
+                    {fields.map(f => (
+                      <th key={f.name} className="px-4 py-2 font-bold text-[var(--color-text-muted)] whitespace-nowrap border-b border-[var(--color-border-glass)]">
+                        <div>{f.name}</div>
+                        <div className="text-[10px] font-normal">{TYPE_LABELS[f.type] || f.type}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border-glass)]">
+                  {preview.map((row, i) => (
+                    <tr key={i} className="hover:bg-[var(--color-primary)]/5">
+                      {fields.map(f => (
+                        <td key={f.name} className="px-4 py-2 text-[var(--color-text-main)] whitespace-nowrap">{formatCell(row[f.name])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="px-4 py-2 text-xs text-[var(--color-text-muted)] border-t border-[var(--color-border-glass)]">
+              {prepared && `${(prepared.rowCounts[entity] ?? 0).toLocaleString('he-IL')} שורות · מוצגות ${Math.min(preview.length, PREVIEW_ROWS)} הראשונות`}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-[var(--color-border-glass)] flex justify-start gap-2">
+          <button
+            onClick={() => prepared && onConfirm(steps, prepared.schema)}
+            disabled={isBusy || !prepared}
+            className="px-5 py-2 text-sm font-bold rounded-xl bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)] text-white hover:opacity-90 transition-opacity disabled:opacity-40"
+          >
+            המשך לדשבורד
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-5 py-2 text-sm font-bold rounded-xl bg-[var(--color-surface-200)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-300)] border border-[var(--color-border-glass)] transition-all"
+          >
+            ביטול העלאה
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
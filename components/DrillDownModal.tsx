@@ -1,33 +1,47 @@
 
 import React, { useEffect, useState } from 'react';
-import { DashboardWidgetConfig, DataPoint } from '../types';
-import { executeODataQuery } from '../services/odataService';
+import { DashboardWidgetConfig, DataConnection, DataPoint } from '../types';
+import { executeODataQuery, getServiceVersion } from '../services/odataService';
+import { AuthStrategy } from '../services/authService';
+import { isAbortError } from '../services/requestControl';
+import { getWidgetQuery, serializeODataQuery } from '../services/odataQuery';
 
 interface DrillDownModalProps {
   isOpen: boolean;
   onClose: () => void;
   config: DashboardWidgetConfig;
-  baseUrl: string;
-  username?: string;
-  password?: string;
+  connection: DataConnection; // An OData service or an uploaded file (see canDrillDown)
+  auth?: AuthStrategy;
 }
 
-export const DrillDownModal: React.FC<DrillDownModalProps> = ({ isOpen, onClose, config, baseUrl, username, password }) => {
+export const DrillDownModal: React.FC<DrillDownModalProps> = ({ isOpen, onClose, config, connection, auth }) => {
   const [data, setData] = useState<DataPoint[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (isOpen && config) {
       setLoading(true);
-      const entityName = config.entity || config.odataQuery.split('?')[0].replace('/', '');
-      const query = `/${entityName}?$top=50`;
+      const widgetQuery = getWidgetQuery(config, connection.schema);
+      // Raw rows of the widget's resource (entity set, navigation path or function result), keeping its expanded relations as extra columns
+      const query = serializeODataQuery({
+        entitySet: widgetQuery?.entitySet || config.entity,
+        path: widgetQuery?.path,
+        function: widgetQuery?.function,
+        expand: widgetQuery?.expand,
+        top: 50
+      }, connection.kind === 'odata' ? getServiceVersion(connection.baseUrl || '') : connection.schema.odataVersion);
       
-      executeODataQuery(baseUrl, query, username, password)
+      const controller = new AbortController();
+      const rows = connection.kind === 'file'
+        ? (connection.dataset ? connection.dataset.query(query, { signal: controller.signal }) : Promise.resolve([]))
+        : executeODataQuery(connection.baseUrl || '', query, auth, { signal: controller.signal });
+      rows
         .then(res => setData(res))
-        .catch(err => console.error(err))
-        .finally(() => setLoading(false));
+        .catch(err => { if (!isAbortError(err)) console.error(err); })
+        .finally(() => { if (!controller.signal.aborted) setLoading(false); });
+      return () => controller.abort();
     }
-  }, [isOpen, config, baseUrl, username, password]);
+  }, [isOpen, config, connection, auth]);
 
   if (!isOpen) return null;
 
@@ -100,7 +114,7 @@ export const DrillDownModal: React.FC<DrillDownModalProps> = ({ isOpen, onClose,
         
         <div className="max-w-7xl mx-auto w-full mt-4 text-xs text-[var(--color-text-muted)] flex justify-between px-2 font-mono opacity-70">
            <span>מציג עד 50 רשומות ראשונות</span>
-           <span className="hidden md:inline">מקור: {baseUrl}</span>
+           <span className="hidden md:inline">מקור: {connection.baseUrl || connection.label}</span>
         </div>
       </div>
     </div>
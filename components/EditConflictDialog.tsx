@@ -0,0 +1,98 @@
+import React from 'react';
+import { DataPoint } from '../types';
+
+interface EditConflictDialogProps {
+  action: 'update' | 'delete';
+  original: DataPoint; // The row as it was loaded
+  changes: DataPoint;  // What the user tried to write (empty for delete)
+  server: DataPoint;   // The row as the service has it now
+  busy?: boolean;
+  onOverwrite: () => void;
+  onUseServer: () => void;
+  onCancel: () => void;
+}
+
+const display = (value: any) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Shown when a write fails with 412 Precondition Failed: someone else changed the record
+ * after it was loaded. Lets the user overwrite with their version or take the service's.
+ */
+export const EditConflictDialog: React.FC<EditConflictDialogProps> = ({ action, original, changes, server, busy, onOverwrite, onUseServer, onCancel }) => {
+  // Fields changed on the service since the row was loaded, plus the ones the user edited
+  const fields = Array.from(new Set([
+    ...Object.keys(server).filter(key => !key.startsWith('@') && display(server[key]) !== display(original[key])),
+    ...Object.keys(changes)
+  ]));
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[var(--color-surface-100)] rounded-2xl shadow-2xl border border-[var(--color-border-glass)] w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="p-5 border-b border-[var(--color-border-glass)]">
+          <h3 className="text-lg font-extrabold text-[var(--color-text-main)]">הרשומה שונתה על ידי משתמש אחר</h3>
+          <p className="text-sm text-[var(--color-text-muted)] mt-1">
+            {action === 'update'
+              ? 'מאז שהרשומה נטענה, היא עודכנה בשרת. בחר איזו גרסה לשמור.'
+              : 'מאז שהרשומה נטענה, היא עודכנה בשרת. בדוק את השינויים לפני המחיקה.'}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5">
+          {fields.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">לא נמצאו הבדלים בשדות הגלויים.</p>
+          ) : (
+            <table className="min-w-full text-sm text-right">
+              <thead>
+                <tr className="text-xs text-[var(--color-text-muted)]">
+                  <th className="py-2 px-3 font-bold">שדה</th>
+                  <th className="py-2 px-3 font-bold">כפי שנטען</th>
+                  <th className="py-2 px-3 font-bold">בשרת כעת</th>
+                  {action === 'update' && <th className="py-2 px-3 font-bold">השינוי שלי</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border-glass)]">
+                {fields.map(field => (
+                  <tr key={field}>
+                    <td className="py-2 px-3 font-bold text-[var(--color-text-main)]">{field}</td>
+                    <td className="py-2 px-3 text-[var(--color-text-muted)]">{display(original[field])}</td>
+                    <td className="py-2 px-3 text-amber-600 dark:text-amber-400">{display(server[field])}</td>
+                    {action === 'update' && (
+                      <td className="py-2 px-3 text-[var(--color-primary)]">{field in changes ? display(changes[field]) : '—'}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-[var(--color-border-glass)] flex flex-wrap justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="px-4 py-2 text-sm rounded-xl text-[var(--color-text-muted)] hover:bg-[var(--color-surface-200)] transition-colors disabled:opacity-50"
+          >
+            ביטול
+          </button>
+          <button
+            onClick={onUseServer}
+            disabled={busy}
+            className="px-4 py-2 text-sm font-bold rounded-xl border border-[var(--color-border-glass)] text-[var(--color-text-main)] hover:bg-[var(--color-surface-200)] transition-colors disabled:opacity-50"
+          >
+            השתמש בגרסת השרת
+          </button>
+          <button
+            onClick={onOverwrite}
+            disabled={busy}
+            className="px-4 py-2 text-sm font-bold rounded-xl bg-red-500 text-white hover:bg-red-600 transition-colors disabled:opacity-50"
+          >
+            {action === 'update' ? 'דרוס עם השינויים שלי' : 'מחק בכל זאת'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
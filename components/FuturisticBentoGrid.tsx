@@ -1,19 +1,18 @@
 
 import React from 'react';
-import { DashboardWidgetConfig, ChartType, DataPoint } from '../types';
+import { DashboardWidgetConfig, ChartType, DataConnection } from '../types';
 import { WidgetCard } from './WidgetCard';
+import { AuthStrategy } from '../services/authService';
+import { canDrillDown, connectionBaseUrl, findWidgetConnection } from '../services/connectionRegistry';
 
 interface FuturisticBentoGridProps {
   widgets: DashboardWidgetConfig[];
-  baseUrl: string;
-  username?: string;
-  password?: string;
-  // Generic connection parameters for SQL/Timbr
-  connectionParams?: { [key: string]: string };
+  // Every active source; each widget queries the one named by its connectionId
+  connections: DataConnection[];
+  auths: Record<string, AuthStrategy>;
   onRemove: (id: string) => void;
   onUpdate: (id: string, newConfig: Partial<DashboardWidgetConfig>) => void;
   onDrillDown: (config: DashboardWidgetConfig) => void;
-  fileData?: DataPoint[];
 }
 
 export const FuturisticBentoGrid: React.FC<FuturisticBentoGridProps> = (props) => {
@@ -138,6 +137,7 @@ export const FuturisticBentoGrid: React.FC<FuturisticBentoGridProps> = (props) =
             {props.widgets.map((widget, index) => {
               const isKPI = widget.chartType === ChartType.KPICARD;
               const colClass = isKPI ? 'bento-item-kpi' : 'bento-item-chart';
+              const connection = findWidgetConnection(props.connections, widget);
               
               return (
                 <div 
@@ -151,14 +151,15 @@ export const FuturisticBentoGrid: React.FC<FuturisticBentoGridProps> = (props) =
                   <div className="h-full w-full relative z-10">
                     <WidgetCard 
                        config={widget} 
-                       baseUrl={props.baseUrl} 
-                       username={props.username}
-                       password={props.password}
-                       connectionParams={props.connectionParams}
+                       baseUrl={connection ? connectionBaseUrl(connection) : ''} 
+                       auth={connection && props.auths[connection.id]}
+                       connectionParams={connection?.params}
+                       schema={connection?.schema}
+                       sourceLabel={props.connections.length > 1 ? connection?.label : undefined}
                        onRemove={props.onRemove} 
                        onUpdate={props.onUpdate}
-                       onDrillDown={props.onDrillDown}
-                       _localDataRef={props.fileData}
+                       onDrillDown={connection && canDrillDown(connection, widget) ? props.onDrillDown : undefined}
+                       _localDataRef={connection?.dataset}
                     />
                   </div>
                 </div>
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DatabaseSchema, DataPoint, ODataLiteralExpression, SchemaOperation } from '../types';
+import { executeODataQuery, getServiceVersion } from '../services/odataService';
+import { AuthStrategy } from '../services/authService';
+import { isAbortError } from '../services/requestControl';
+import { describeError } from '../services/odataErrors';
+import { serializeODataQuery } from '../services/odataQuery';
+import { edmLiteral, parseEdmInput } from '../services/edmTypes';
+
+interface OperationPanelProps {
+  operation: SchemaOperation;
+  schema: DatabaseSchema;
+  baseUrl: string;
+  auth?: AuthStrategy;
+}
+
+/**
+ * Explorer view of a function or action import: signature, parameter inputs and, for functions, the result.
+ * Actions change data on the service, so they are only described here.
+ */
+export const OperationPanel: React.FC<OperationPanelProps> = ({ operation, schema, baseUrl, auth }) => {
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [data, setData] = useState<DataPoint[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // A call still running for the previous operation is aborted when switching away
+  useEffect(() => {
+    setInputs({});
+    setErrors({});
+    setData(null);
+    setRunError(null);
+    setLoading(false);
+    return () => controller.current?.abort();
+  }, [operation]);
+
+  const version = getServiceVersion(baseUrl);
+
+  const run = async () => {
+    const parameters: Record<string, ODataLiteralExpression> = {};
+    const found: Record<string, string> = {};
+    operation.parameters.forEach(p => {
+      const text = inputs[p.name] ?? '';
+      if (text.trim() === '' && p.nullable !== false) return;
+      const result = parseEdmInput(text, p, schema, version);
+      if (result.error) found[p.name] = result.error;
+      else parameters[p.name] = edmLiteral(result.value, p.type);
+    });
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+
+    controller.current?.abort();
+    const next = new AbortController();
+    controller.current = next;
+    setLoading(true);
+    setRunError(null);
+    try {
+      const isCollection = operation.returnType?.startsWith('Collection(');
+      const query = serializeODataQuery({ entitySet: operation.name, function: { parameters }, top: isCollection ? 100 : undefined }, version);
+      const result = await executeODataQuery(baseUrl, query, auth, { signal: next.signal });
+      if (!next.signal.aborted) setData(result);
+    } catch (error: any) {
+      if (!isAbortError(error)) setRunError(describeError(error));
+    } finally {
+      if (!next.signal.aborted) setLoading(false);
+    }
+  };
+
+  const headers = data && data.length > 0 ? Object.keys(data[0]) : [];
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="text-xl font-extrabold text-[var(--color-text-main)]" dir="ltr">{operation.name}</h3>
+          <span className={`text-[10px] font-bold px-2 py-1 rounded ${operation.kind === 'function' ? 'bg-[var(--color-primary)]/10 text-[var(--color-primary)]' : 'bg-amber-500/10 text-amber-600 dark:text-amber-400'}`}>
+            {operation.kind === 'function' ? 'פונקציה' : 'פעולה (Action)'}
+          </span>
+        </div>
+        {operation.label && <p className="text-sm text-[var(--color-text-muted)] mt-1">{operation.label}</p>}
+        <div className="flex flex-wrap gap-2 mt-3 text-xs font-mono text-[var(--color-text-muted)]" dir="ltr">
+          <span className="bg-[var(--color-surface-200)] px-2 py-1 rounded border border-[var(--color-border-glass)]">
+            → {operation.returnType || 'void'}
+          </span>
+          {operation.entitySet && (
+            <span className="bg-[var(--color-surface-200)] px-2 py-1 rounded border border-[var(--color-border-glass)]">EntitySet: {operation.entitySet}</span>
+          )}
+        </div>
+      </div>
+
+      {operation.parameters.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {operation.parameters.map(p => (
+            <label key={p.name} className="block bg-[var(--color-surface-glass)] p-4 rounded-2xl border border-[var(--color-border-glass)]">
+              <div className="flex justify-between items-center gap-2 mb-2">
+                <span className="font-bold text-sm text-[var(--color-text-main)]">
+                  {p.name}
+                  {p.nullable === false && <span className="text-rose-500 mr-1">*</span>}
+                </span>
+                <span className="text-[10px] font-mono text-[var(--color-primary)] bg-[var(--color-primary)]/10 px-2 py-0.5 rounded" dir="ltr">{p.type}</span>
+              </div>
+              <input
+                value={inputs[p.name] ?? ''}
+                onChange={(e) => setInputs({ ...inputs, [p.name]: e.target.value })}
+                disabled={operation.kind !== 'function'}
+                dir="ltr"
+                className={`w-full bg-[var(--color-surface-100)] border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] disabled:opacity-50 ${errors[p.name] ? 'border-red-500' : 'border-[var(--color-border-glass)]'}`}
+              />
+              {errors[p.name] && <div className="text-xs text-red-500 mt-1">{errors[p.name]}</div>}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {operation.kind === 'function' ? (
+        <button
+          onClick={run}
+          disabled={loading}
+          className="px-5 py-2 text-sm font-bold rounded-xl bg-[var(--color-primary)] text-white hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          {loading ? 'מריץ...' : 'הרץ'}
+        </button>
+      ) : (
+        <p className="text-sm text-[var(--color-text-muted)]">פעולות משנות נתונים בשירות ולכן לא מורצות מסייר הנתונים.</p>
+      )}
+
+      {runError && (
+        <pre className="text-xs text-red-600 dark:text-red-400 bg-red-500/10 border border-red-500/20 rounded-xl p-3 whitespace-pre-wrap" dir="ltr">{runError}</pre>
+      )}
+
+      {data && (
+        data.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-muted)]">הפונקציה לא החזירה נתונים</p>
+        ) : (
+          <div className="overflow-auto bg-[var(--color-surface-glass)] border border-[var(--color-border-glass)] rounded-2xl">
+            <table className="min-w-full text-sm text-right border-collapse">
+              <thead className="bg-[var(--color-surface-200)]">
+                <tr>
+                  {headers.map(h => (
+                    <th key={h} className="px-4 py-3 font-bold text-[var(--color-text-muted)] whitespace-nowrap border-b border-[var(--color-border-glass)]">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border-glass)]">
+                {data.map((row, i) => (
+                  <tr key={i} className="hover:bg-[var(--color-primary)]/5 transition-colors">
+                    {headers.map(h => (
+                      <td key={`${i}-${h}`} className="px-4 py-2 text-[var(--color-text-main)] whitespace-nowrap">
+                        {row[h] === null || row[h] === undefined ? '-' : typeof row[h] === 'object' ? JSON.stringify(row[h]) : String(row[h])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
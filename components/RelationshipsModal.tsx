@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { DataConnection, LocalColumnRef, LocalRelationship } from '../types';
+import { relationshipKey } from '../services/localRelationships';
+
+interface RelationshipsModalProps {
+  connections: DataConnection[]; // Uploaded files only
+  relationships: LocalRelationship[];
+  suggestions: LocalRelationship[];
+  onAdd: (relationship: LocalRelationship) => void;
+  onRemove: (relationship: LocalRelationship) => void;
+  onClose: () => void;
+}
+
+// Entity as "<file> › <entity>" when several files are loaded
+const describeEntity = (connections: DataConnection[], ref: { connectionId: string; entity: string }) => {
+  const connection = connections.find(c => c.id === ref.connectionId);
+  const entity = connection?.schema.entities.find(e => e.name === ref.entity);
+  const name = entity?.label || ref.entity;
+  return connections.length > 1 && connection ? `${connection.label} › ${name}` : name;
+};
+
+const describeColumn = (connections: DataConnection[], ref: LocalColumnRef) => `${describeEntity(connections, ref)}.${ref.column}`;
+
+const entityOptionValue = (ref: { connectionId: string; entity: string }) => JSON.stringify([ref.connectionId, ref.entity]);
+
+// Picks an entity of any uploaded file, then one of its columns
+const ColumnPicker: React.FC<{ connections: DataConnection[]; value: LocalColumnRef | null; onChange: (ref: LocalColumnRef | null) => void }> = ({ connections, value, onChange }) => {
+  const entity = value && connections.find(c => c.id === value.connectionId)?.schema.entities.find(e => e.name === value.entity);
+  const selectClass = "w-full bg-[var(--color-surface-200)] border border-[var(--color-border-glass)] rounded-lg px-2 py-1.5 text-sm text-[var(--color-text-main)] focus:outline-none focus:ring-1 focus:ring-[var(--color-primary)]";
+  return (
+    <div className="flex flex-col gap-1.5 flex-1 min-w-0">
+      <select
+        className={selectClass}
+        value={value ? entityOptionValue(value) : ''}
+        onChange={(e) => {
+          if (!e.target.value) return onChange(null);
+          const [connectionId, name] = JSON.parse(e.target.value);
+          const first = connections.find(c => c.id === connectionId)?.schema.entities.find(en => en.name === name)?.fields[0];
+          onChange({ connectionId, entity: name, column: first?.name || '' });
+        }}
+      >
+        <option value="">בחר ישות...</option>
+        {connections.flatMap(c => c.schema.entities.map(en => (
+          <option key={entityOptionValue({ connectionId: c.id, entity: en.name })} value={entityOptionValue({ connectionId: c.id, entity: en.name })}>
+            {describeEntity(connections, { connectionId: c.id, entity: en.name })}
+          </option>
+        )))}
+      </select>
+      <select
+        className={selectClass}
+        value={value?.column || ''}
+        disabled={!entity}
+        onChange={(e) => value && onChange({ ...value, column: e.target.value })}
+      >
+        {(entity?.fields || []).map(f => <option key={f.name} value={f.name}>{f.label || f.name}</option>)}
+      </select>
+    </div>
+  );
+};
+
+/**
+ * Relationships between uploaded files (or sheets of one file): the declared ones, the ones suggested
+ * from matching key columns, and a form to declare a new one. Each becomes a navigation property.
+ */
+export const RelationshipsModal: React.FC<RelationshipsModalProps> = ({ connections, relationships, suggestions, onAdd, onRemove, onClose }) => {
+  const [from, setFrom] = useState<LocalColumnRef | null>(null);
+  const [to, setTo] = useState<LocalColumnRef | null>(null);
+
+  const canAdd = !!from?.column && !!to?.column
+    && !(from.connectionId === to.connectionId && from.entity === to.entity && from.column === to.column)
+    && !relationships.some(r => relationshipKey(r) === relationshipKey({ from, to }));
+
+  const add = () => {
+    if (!from || !to || !canAdd) return;
+    onAdd({ from, to });
+    setFrom(null);
+    setTo(null);
+  };
+
+  const renderRelationship = (r: LocalRelationship) => (
+    <span className="text-sm text-[var(--color-text-main)] flex flex-wrap items-center gap-1.5">
+      <span className="font-bold">{describeColumn(connections, r.from)}</span>
+      <span className="text-[var(--color-text-muted)]">← רבים לאחד →</span>
+      <span className="font-bold">{describeColumn(connections, r.to)}</span>
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[var(--color-surface-100)] rounded-2xl shadow-2xl border border-[var(--color-border-glass)] w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="p-5 border-b border-[var(--color-border-glass)] flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-extrabold text-[var(--color-text-main)]">קשרים בין קבצים</h3>
+            <p className="text-sm text-[var(--color-text-muted)] mt-1">כל קשר מאפשר לשלב שדות מישות קשורה בווידג'טים ($expand).</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-[var(--color-surface-200)] rounded-full transition-colors">
+            <svg className="w-5 h-5 text-[var(--color-text-muted)]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5 space-y-6">
+          <section>
+            <h4 className="text-xs font-bold text-[var(--color-text-muted)] mb-2">קשרים מוגדרים</h4>
+            {relationships.length === 0 ? (
+              <p className="text-sm text-[var(--color-text-muted)]">עדיין לא הוגדרו קשרים.</p>
+            ) : (
+              <ul className="space-y-2">
+                {relationships.map(r => (
+                  <li key={relationshipKey(r)} className="flex items-center justify-between gap-2 p-3 rounded-xl bg-[var(--color-surface-200)]/50 border border-[var(--color-border-glass)]">
+                    {renderRelationship(r)}
+                    <button onClick={() => onRemove(r)} className="text-xs font-bold px-2 py-1 rounded-lg text-red-500 hover:bg-red-500/10 transition-colors">הסר</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {suggestions.length > 0 && (
+            <section>
+              <h4 className="text-xs font-bold text-[var(--color-text-muted)] mb-2">הצעות לפי עמודות מפתח תואמות</h4>
+              <ul className="space-y-2">
+                {suggestions.map(r => (
+                  <li key={relationshipKey(r)} className="flex items-center justify-between gap-2 p-3 rounded-xl border border-dashed border-[var(--color-primary)]/40">
+                    {renderRelationship(r)}
+                    <button onClick={() => onAdd(r)} className="text-xs font-bold px-3 py-1 rounded-lg bg-[var(--color-primary)] text-white hover:opacity-90 transition-opacity">הוסף</button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section>
+            <h4 className="text-xs font-bold text-[var(--color-text-muted)] mb-2">קשר חדש</h4>
+            <div className="flex flex-col md:flex-row items-stretch md:items-end gap-3">
+              <ColumnPicker connections={connections} value={from} onChange={setFrom} />
+              <span className="text-xs text-[var(--color-text-muted)] self-center whitespace-nowrap">מצביע אל</span>
+              <ColumnPicker connections={connections} value={to} onChange={setTo} />
+              <button
+                onClick={add}
+                disabled={!canAdd}
+                className="px-4 py-2 text-sm font-bold rounded-xl bg-[var(--color-primary)] text-white hover:opacity-90 transition-opacity disabled:opacity-40"
+              >
+                הוסף
+              </button>
+            </div>
+            <p className="text-xs text-[var(--color-text-muted)] mt-2">הצד הימני הוא הצד ה"רבים" (למשל הזמנות.CustomerID), השמאלי הוא הצד ה"אחד" שערכיו ייחודיים (למשל לקוחות.CustomerID).</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
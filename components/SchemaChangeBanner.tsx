@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { DashboardWidgetConfig, SchemaDiff, SchemaFieldChange } from '../types';
+
+interface SchemaChangeBannerProps {
+  diff: SchemaDiff;
+  widgets: DashboardWidgetConfig[];
+  source?: string; // Connection label, when the dashboard has several sources
+  onDismiss: () => void;
+}
+
+// Whether a widget reads a field that was removed or changed type
+const usesField = (widget: DashboardWidgetConfig, change: SchemaFieldChange) => {
+  if (widget.entity !== change.entity) return false;
+  if (widget.xAxisKey === change.field || widget.dataKey === change.field) return true;
+  const query = widget.sqlQuery || widget.odataQuery || '';
+  return new RegExp(`\\b${change.field}\\b`).test(query);
+};
+
+/**
+ * Lists what changed in the service's $metadata since the cached version,
+ * and which widgets on the dashboard depend on the removed or retyped parts.
+ */
+export const SchemaChangeBanner: React.FC<SchemaChangeBannerProps> = ({ diff, widgets, source, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const affected = widgets.filter(w =>
+    diff.removedEntities.includes(w.entity)
+    || [...diff.removedFields, ...diff.retypedFields].some(change => usesField(w, change)));
+
+  const summary = [
+    diff.addedEntities.length && `${diff.addedEntities.length} ישויות חדשות`,
+    diff.removedEntities.length && `${diff.removedEntities.length} ישויות הוסרו`,
+    diff.addedFields.length && `${diff.addedFields.length} שדות חדשים`,
+    diff.removedFields.length && `${diff.removedFields.length} שדות הוסרו`,
+    diff.retypedFields.length && `${diff.retypedFields.length} שדות שינו סוג`
+  ].filter(Boolean).join(' · ');
+
+  const row = (icon: string, className: string, text: string, key: string) => (
+    <li key={key} className={`flex items-center gap-2 ${className}`}>
+      <span className="w-4 text-center font-bold">{icon}</span>
+      <span className="font-mono" dir="ltr">{text}</span>
+    </li>
+  );
+
+  return (
+    <div className="rounded-2xl border border-amber-500/30 bg-amber-500/10 p-4 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-bold text-amber-700 dark:text-amber-400">מבנה השירות{source ? ` ${source}` : ''} השתנה מאז החיבור הקודם</div>
+          <div className="text-xs text-[var(--color-text-muted)] mt-1">{summary}</div>
+          {affected.length > 0 && (
+            <div className="text-xs text-red-600 dark:text-red-400 mt-1">
+              ווידג'טים שעלולים להיפגע: {affected.map(w => w.title).join(', ')}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button onClick={() => setExpanded(!expanded)} className="text-xs font-bold text-amber-700 dark:text-amber-400 hover:underline">
+            {expanded ? 'הסתר פרטים' : 'הצג פרטים'}
+          </button>
+          <button onClick={onDismiss} className="text-[var(--color-text-muted)] hover:text-[var(--color-text-main)] px-1">✕</button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ul className="mt-3 space-y-1 text-xs max-h-64 overflow-y-auto">
+          {diff.addedEntities.map(e => row('+', 'text-emerald-600 dark:text-emerald-400', e, `ae-${e}`))}
+          {diff.removedEntities.map(e => row('−', 'text-red-600 dark:text-red-400', e, `re-${e}`))}
+          {diff.addedFields.map(f => row('+', 'text-emerald-600 dark:text-emerald-400', `${f.entity}.${f.field}: ${f.type}`, `af-${f.entity}-${f.field}`))}
+          {diff.removedFields.map(f => row('−', 'text-red-600 dark:text-red-400', `${f.entity}.${f.field}: ${f.type}`, `rf-${f.entity}-${f.field}`))}
+          {diff.retypedFields.map(f => row('~', 'text-amber-700 dark:text-amber-400', `${f.entity}.${f.field}: ${f.previousType} → ${f.type}`, `tf-${f.entity}-${f.field}`))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -4,79 +4,147 @@ import {
   BarChart, Bar, LineChart, Line, PieChart, Pie, AreaChart, Area, 
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell 
 } from 'recharts';
-import { DashboardWidgetConfig, ChartType, DataPoint, AlertConfig } from '../types';
+import { DashboardWidgetConfig, ChartType, DataPoint, AlertConfig, ODataPagingProgress, DatabaseSchema, LocalDataset } from '../types';
 import { executeODataQuery } from '../services/odataService';
-import { executeLocalQuery } from '../services/fileService';
 import { executeMockSqlQuery } from '../services/mockSqlService';
 import { executeMockTimbrQuery } from '../services/mockTimbrService';
+import { AuthStrategy } from '../services/authService';
+import { ODataError, describeError } from '../services/odataErrors';
+import { isAbortError } from '../services/requestControl';
+import { getWidgetQuery } from '../services/odataQuery';
+import { resolveMeasure, formatMeasure, Measure } from '../services/fieldFormat';
 import { COLORS } from '../constants';
 
 interface WidgetCardProps {
   config: DashboardWidgetConfig;
   baseUrl: string;
-  username?: string;
-  password?: string;
+  auth?: AuthStrategy;
   // Generic connection parameters for SQL/Timbr (ProjectID, Dataset, Ontology, Token etc.)
   connectionParams?: { [key: string]: string };
+  // Used for the currency / unit of the value column
+  schema?: DatabaseSchema | null;
+  // Name of the widget's data source, shown when the dashboard mixes several
+  sourceLabel?: string;
   onRemove: (id: string) => void;
   onUpdate: (id: string, newConfig: Partial<DashboardWidgetConfig>) => void;
-  onDrillDown: (config: DashboardWidgetConfig) => void;
-  _localDataRef?: DataPoint[];
+  onDrillDown?: (config: DashboardWidgetConfig) => void; // Not given when the widget's rows can't be listed
+  _localDataRef?: LocalDataset;
 }
 
-export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, username, password, connectionParams, onRemove, onUpdate, onDrillDown, _localDataRef }) => {
+export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, auth, connectionParams, schema, sourceLabel, onRemove, onUpdate, onDrillDown, _localDataRef }) => {
   const [data, setData] = useState<DataPoint[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  // Server-driven paging progress (OData only)
+  const [paging, setPaging] = useState<ODataPagingProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // Bumped by the retry button to re-run the query effect
+  const [reloadToken, setReloadToken] = useState(0);
+  const [detailsCopied, setDetailsCopied] = useState(false);
   
   // Analysis State
   const [filterValue, setFilterValue] = useState<string>('');
   const [isHovered, setIsHovered] = useState(false);
   
   useEffect(() => {
-    let isMounted = true;
+    // Aborted when the query changes or the widget is removed, so stale responses never land
+    const controller = new AbortController();
+    const { signal } = controller;
     const loadData = async () => {
       setLoading(true);
+      setPaging(null);
+      setError(null);
       try {
         let result: DataPoint[] = [];
         
-        if (config.sqlQuery) {
+        if (config.sqlQuery && _localDataRef) {
+            // SQLite in the file's worker
+            result = await _localDataRef.sql(config.sqlQuery, { signal });
+        } else if (config.sqlQuery) {
             if (connectionParams && connectionParams.ontology) {
                // Timbr Semantic SQL
                result = await executeMockTimbrQuery(
                    config.sqlQuery, 
                    connectionParams.ontology, 
-                   connectionParams.token
+                   connectionParams.token,
+                   { signal }
                );
             } else if (connectionParams && connectionParams.projectId) {
                // Standard SQL / BigQuery Mode
                result = await executeMockSqlQuery(
                    config.sqlQuery,
                    connectionParams.projectId,
-                   connectionParams.datasetId
+                   connectionParams.datasetId,
+                   { signal }
                );
             } else {
                // Fallback / Default Mock
-               result = await executeMockSqlQuery(config.sqlQuery, 'mock-project', 'mock-dataset');
+               result = await executeMockSqlQuery(config.sqlQuery, 'mock-project', 'mock-dataset', { signal });
             }
         } else if (baseUrl === 'LOCAL_FILE_MODE') {
+             // Runs in the file's worker
              if (_localDataRef) {
-                 result = executeLocalQuery(_localDataRef, config.odataQuery);
+                 result = await _localDataRef.query(config.odataQuery, { signal });
              }
         } else {
              // OData Mode
-             result = await executeODataQuery(baseUrl, config.odataQuery, username, password);
+             result = await executeODataQuery(baseUrl, config.odataQuery, auth, {
+                 maxRows: config.maxRows,
+                 signal,
+                 onProgress: (progress) => { if (!signal.aborted) setPaging(progress); }
+             });
         }
 
-        if (isMounted) setData(result);
-      } catch (error) {
-        console.error("Failed to fetch data", error);
+        if (!signal.aborted) setData(result);
+      } catch (err: any) {
+        if (signal.aborted || isAbortError(err)) return;
+        console.error("Failed to fetch data", err);
+        setData([]);
+        setError(err instanceof Error ? err : new Error(String(err)));
       } finally {
-        if (isMounted) setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
     loadData();
-    return () => { isMounted = false; };
-  }, [config.odataQuery, config.sqlQuery, baseUrl, username, password, connectionParams, _localDataRef]);
+    return () => controller.abort();
+  }, [config.odataQuery, config.sqlQuery, config.maxRows, baseUrl, auth, connectionParams, _localDataRef, reloadToken]);
+
+  const retry = () => setReloadToken(t => t + 1);
+
+  const copyErrorDetails = async () => {
+    if (!error) return;
+    try {
+      await navigator.clipboard.writeText(describeError(error));
+      setDetailsCopied(true);
+      setTimeout(() => setDetailsCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy error details", e);
+    }
+  };
+
+  const errorStatus = error instanceof ODataError ? error.status : undefined;
+  const errorCode = error instanceof ODataError ? error.code : undefined;
+
+  const renderErrorActions = () => (
+    <div className="flex items-center gap-2 mt-3">
+      <button
+        onClick={retry}
+        className="text-xs font-bold px-3 py-1.5 rounded-lg bg-red-500/10 text-red-600 dark:text-red-400 border border-red-500/20 hover:bg-red-500/20 transition-colors"
+      >
+        נסה שוב
+      </button>
+      <button
+        onClick={copyErrorDetails}
+        className="text-xs font-medium px-3 py-1.5 rounded-lg text-[var(--color-text-muted)] border border-[var(--color-border-glass)] hover:text-[var(--color-text-main)] transition-colors"
+      >
+        {detailsCopied ? 'הועתק ✓' : 'העתק פרטים'}
+      </button>
+    </div>
+  );
+
+  const isTruncated = !loading && !!paging?.truncated;
+  const truncatedTitle = paging
+    ? `השירות החזיר יותר מ-${paging.rowsFetched.toLocaleString()} שורות. הסכומים מחושבים על חלק מהנתונים בלבד.`
+    : '';
 
   // Keys
   const hasActualTarget = data.length > 0 && 'target' in data[0];
@@ -140,6 +208,15 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
   const total = useMemo(() => processedData.reduce((acc, curr) => acc + (Number(curr[mainKey]) || 0), 0), [processedData, mainKey]);
   const average = useMemo(() => processedData.length ? total / processedData.length : 0, [total, processedData]);
 
+  // Currency or unit from the schema annotations of the value field (or the field its aggregate alias sums)
+  const measure = useMemo<Measure>(() => {
+    if (!schema) return {};
+    const apply = config.sqlQuery ? undefined : getWidgetQuery(config, schema || undefined)?.apply;
+    return resolveMeasure(schema, config.entity, config.dataKey, data, apply);
+  }, [schema, config, data]);
+  const formatValue = (value: any) => typeof value === 'number' ? formatMeasure(value, measure) : value;
+  const formatTick = (value: any) => typeof value === 'number' ? formatMeasure(value, measure, { compact: true }) : value;
+
   // --- Visual Definitions ---
   // We define Gradients and Filters to make charts look premium
   const renderDefs = (id: string) => (
@@ -203,11 +280,32 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
             <span className="text-xs text-[var(--color-text-muted)] font-medium">טוען נתונים...</span>
+            {paging && paging.pagesFetched > 0 && (
+              <span className="text-[10px] text-[var(--color-text-muted)] font-mono">
+                {paging.rowsFetched.toLocaleString()} שורות · עמוד {paging.pagesFetched}
+              </span>
+            )}
           </div>
         </div>
       );
     }
 
+    if (error) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center min-h-[160px] text-center border border-dashed border-red-500/30 rounded-lg m-2 p-4 bg-red-500/5">
+           <svg className="w-8 h-8 mb-2 text-red-500 opacity-80" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" /></svg>
+           <span className="text-sm font-bold text-red-600 dark:text-red-400">שגיאה בטעינת הנתונים</span>
+           {(errorStatus || errorCode) && (
+             <span className="text-[10px] font-mono text-[var(--color-text-muted)] mt-1" dir="ltr">
+               {[errorStatus ? `HTTP ${errorStatus}` : '', errorCode].filter(Boolean).join(' · ')}
+             </span>
+           )}
+           <span className="text-xs text-[var(--color-text-muted)] mt-1 max-w-full line-clamp-3 break-words" title={error.message}>{error.message}</span>
+           {renderErrorActions()}
+        </div>
+      );
+    }
+
     if (processedData.length === 0) {
       return (
         <div className="flex-1 flex flex-col items-center justify-center min-h-[160px] text-[var(--color-text-muted)] border border-dashed border-[var(--color-border-glass)] rounded-lg m-2 bg-white/5">
@@ -228,9 +326,10 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
               {renderDefs(config.id)}
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--color-border-glass)" strokeOpacity={0.5} />
               <XAxis dataKey={xKey} tick={axisStyle} tickLine={false} axisLine={false} dy={10} />
-              <YAxis tick={axisStyle} tickLine={false} axisLine={false} width={30} />
+              <YAxis tick={axisStyle} tickLine={false} axisLine={false} width={30} tickFormatter={formatTick} />
               <Tooltip 
                 contentStyle={tooltipStyle} 
+                formatter={formatValue}
                 itemStyle={{ color: '#fff', fontWeight: 600 }}
                 cursor={{ stroke: 'var(--color-primary)', strokeWidth: 1, strokeDasharray: '4 4' }}
               />
@@ -272,7 +371,7 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
                   />
                 ))}
               </Pie>
-              <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: '#fff' }} />
+              <Tooltip contentStyle={tooltipStyle} formatter={formatValue} itemStyle={{ color: '#fff' }} />
               <Legend verticalAlign="bottom" height={36} iconType="circle" iconSize={6} wrapperStyle={{ fontSize: '11px', color: 'var(--color-text-muted)', fontFamily: 'Heebo' }}/>
             </PieChart>
           </ResponsiveContainer>
@@ -284,8 +383,8 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
               {renderDefs(config.id)}
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--color-border-glass)" strokeOpacity={0.5} />
               <XAxis dataKey={xKey} tick={axisStyle} tickLine={false} axisLine={false} dy={10} />
-              <YAxis tick={axisStyle} tickLine={false} axisLine={false} width={30} />
-              <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: '#fff' }} cursor={{ stroke: COLORS[2], strokeWidth: 1 }} />
+              <YAxis tick={axisStyle} tickLine={false} axisLine={false} width={30} tickFormatter={formatTick} />
+              <Tooltip contentStyle={tooltipStyle} formatter={formatValue} itemStyle={{ color: '#fff' }} cursor={{ stroke: COLORS[2], strokeWidth: 1 }} />
               <Area 
                 type="monotone" 
                 dataKey={mainKey} 
@@ -306,8 +405,8 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
               {renderDefs(config.id)}
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--color-border-glass)" strokeOpacity={0.5} />
               <XAxis dataKey={xKey} tick={axisStyle} tickLine={false} axisLine={false} dy={10} />
-              <YAxis tick={axisStyle} tickLine={false} axisLine={false} width={30} />
-              <Tooltip cursor={{fill: 'var(--color-border-glass)', opacity: 0.3}} contentStyle={tooltipStyle} itemStyle={{ color: '#fff' }} />
+              <YAxis tick={axisStyle} tickLine={false} axisLine={false} width={30} tickFormatter={formatTick} />
+              <Tooltip cursor={{fill: 'var(--color-border-glass)', opacity: 0.3}} contentStyle={tooltipStyle} formatter={formatValue} itemStyle={{ color: '#fff' }} />
               <Bar 
                 dataKey={mainKey} 
                 fill={`url(#grad-primary-${config.id})`} 
@@ -345,9 +444,16 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
                        <h3 className="text-[var(--color-text-muted)] font-bold text-xs mb-2 uppercase tracking-widest">{config.title}</h3>
                        {loading ? (
                            <div className="h-10 w-32 bg-[var(--color-border-glass)] rounded animate-pulse mt-2"></div>
+                       ) : error ? (
+                           <div className="mt-1">
+                               <div className="text-sm font-bold text-red-600 dark:text-red-400" title={error.message}>
+                                   שגיאה{errorStatus ? ` (${errorStatus})` : ''}
+                               </div>
+                               {renderErrorActions()}
+                           </div>
                        ) : (
                            <div className="text-4xl md:text-5xl font-black text-[var(--color-text-main)] tracking-tight drop-shadow-sm mt-1 bg-clip-text text-transparent bg-gradient-to-r from-[var(--color-text-main)] to-[var(--color-primary)]">
-                               {total.toLocaleString()}
+                               {formatMeasure(total, measure)}
                            </div>
                        )}
                    </div>
@@ -363,24 +469,45 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
                 </div>
                 
                 <div className="flex items-end justify-between mt-4 border-t border-[var(--color-border-glass)] pt-3">
-                    <div className="flex items-center gap-1.5 text-[10px] font-bold px-2 py-1 rounded-full bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border border-emerald-500/20">
-                        <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></span>
-                        <span>LIVE</span>
-                    </div>
+                    {error ? (
+                        <div className="flex items-center gap-1.5 text-[10px] font-bold px-2 py-1 rounded-full bg-red-500/10 text-red-600 dark:text-red-400 border border-red-500/20">
+                            <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span>
+                            <span>ERROR</span>
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-1.5 text-[10px] font-bold px-2 py-1 rounded-full bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border border-emerald-500/20">
+                            <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></span>
+                            <span>LIVE</span>
+                        </div>
+                    )}
                     
+                    {isTruncated && (
+                         <div title={truncatedTitle} className="text-[10px] font-bold px-2 py-1 rounded-full bg-amber-500/10 text-amber-600 dark:text-amber-400 border border-amber-500/20 cursor-help">
+                            חלקי
+                         </div>
+                    )}
+
+                    {sourceLabel && (
+                         <div className="text-[10px] px-2 py-1 rounded bg-[var(--color-surface-200)] text-[var(--color-text-muted)] max-w-[100px] truncate" title={sourceLabel}>
+                            {sourceLabel}
+                         </div>
+                    )}
+
                     {config.sqlQuery && (
                          <div title={config.sqlQuery} className={`text-[10px] px-2 py-1 rounded cursor-help font-mono max-w-[100px] truncate ${connectionParams?.ontology ? 'bg-purple-500/10 text-purple-500' : 'bg-[var(--color-primary)]/10 text-[var(--color-primary)]'}`}>
                             {connectionParams?.ontology ? 'KG-SQL' : 'SQL'}
                          </div>
                     )}
                     
-                    <button 
-                        onClick={() => onDrillDown(config)}
-                        className="text-xs text-[var(--color-primary)] font-bold hover:underline opacity-80 hover:opacity-100 flex items-center gap-1 p-2 md:p-0"
-                    >
-                        נתונים
-                        <svg className="w-3 h-3 rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
-                    </button>
+                    {onDrillDown && (
+                        <button 
+                            onClick={() => onDrillDown(config)}
+                            className="text-xs text-[var(--color-primary)] font-bold hover:underline opacity-80 hover:opacity-100 flex items-center gap-1 p-2 md:p-0"
+                        >
+                            נתונים
+                            <svg className="w-3 h-3 rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+                        </button>
+                    )}
                 </div>
              </div>
         </div>
@@ -399,6 +526,9 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
         <div className="flex-1 pr-2">
           <h3 className="text-base md:text-lg font-extrabold text-[var(--color-text-main)] tracking-tight leading-tight">{config.title}</h3>
           <p className="text-xs text-[var(--color-text-muted)] mt-1 line-clamp-1 font-medium">{config.description}</p>
+          {sourceLabel && (
+            <span className="inline-block mt-1.5 text-[10px] px-2 py-0.5 rounded bg-[var(--color-surface-200)] text-[var(--color-text-muted)]">{sourceLabel}</span>
+          )}
         </div>
         
         {/* Actions */}
@@ -450,19 +580,27 @@ export const WidgetCard: React.FC<WidgetCardProps> = ({ config, baseUrl, usernam
          <div className="flex gap-4 text-[var(--color-text-muted)] font-mono font-medium">
             {processedData.length > 0 && (
                 <>
-                    <span title="Total" className="flex items-center gap-1"><span className="text-[var(--color-primary)]">∑</span> {total.toLocaleString()}</span>
-                    <span title="Average" className="flex items-center gap-1 hidden md:flex"><span className="text-[var(--color-secondary)]">Ø</span> {average.toLocaleString(undefined, { maximumFractionDigits: 1 })}</span>
+                    <span title="Total" className="flex items-center gap-1"><span className="text-[var(--color-primary)]">∑</span> {formatMeasure(total, measure)}</span>
+                    <span title="Average" className="flex items-center gap-1 hidden md:flex"><span className="text-[var(--color-secondary)]">Ø</span> {formatMeasure(average, measure, { maximumFractionDigits: 1 })}</span>
                 </>
             )}
+            {isTruncated && (
+                <span title={truncatedTitle} className="flex items-center gap-1 text-amber-600 dark:text-amber-400 font-sans font-bold cursor-help">
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" /></svg>
+                    מוגבל ל-{paging!.rowsFetched.toLocaleString()} שורות
+                </span>
+            )}
          </div>
          
-         <button 
-            onClick={() => onDrillDown(config)}
-            className="text-[var(--color-primary)] font-bold hover:bg-[var(--color-primary)]/10 px-3 py-1.5 rounded-md transition-colors flex items-center gap-1.5"
-         >
-            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
-            נתונים
-         </button>
+         {onDrillDown && (
+            <button 
+               onClick={() => onDrillDown(config)}
+               className="text-[var(--color-primary)] font-bold hover:bg-[var(--color-primary)]/10 px-3 py-1.5 rounded-md transition-colors flex items-center gap-1.5"
+            >
+               <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+               נתונים
+            </button>
+         )}
       </div>
     </div>
   );
@@ -6,33 +6,39 @@ export const MOCK_SCHEMA: DatabaseSchema = {
   entities: [
     {
       name: 'Orders',
+      keys: ['OrderID'],
       fields: [
-        { name: 'OrderID', type: 'number' },
+        { name: 'OrderID', type: 'number', isKey: true },
         { name: 'CustomerName', type: 'string' },
+        { name: 'ProductID', type: 'number', description: 'References Products.ProductID' },
+        { name: 'EmployeeID', type: 'number', description: 'Salesperson, references Employees.EmployeeID' },
         { name: 'OrderDate', type: 'date' },
-        { name: 'TotalAmount', type: 'number', description: 'The total value of the order in ILS' },
-        { name: 'Region', type: 'string', description: 'Sales region (North, South, Center, etc.)' },
+        { name: 'Quantity', type: 'number' },
+        { name: 'TotalAmount', type: 'number', description: 'The total value of the order in ILS (UnitPrice x Quantity)', currency: 'ILS' },
+        { name: 'Region', type: 'string', description: 'Sales region (North, South, Center, Jerusalem, Sharon)' },
         { name: 'Status', type: 'string', description: 'Completed, Pending, Cancelled' }
       ]
     },
     {
       name: 'Products',
+      keys: ['ProductID'],
       fields: [
-        { name: 'ProductID', type: 'number' },
+        { name: 'ProductID', type: 'number', isKey: true },
         { name: 'ProductName', type: 'string' },
         { name: 'Category', type: 'string', description: 'Electronics, Furniture, Clothing' },
-        { name: 'UnitPrice', type: 'number' },
+        { name: 'UnitPrice', type: 'number', currency: 'ILS' },
         { name: 'StockLevel', type: 'number' }
       ]
     },
     {
       name: 'Employees',
+      keys: ['EmployeeID'],
       fields: [
-        { name: 'EmployeeID', type: 'number' },
+        { name: 'EmployeeID', type: 'number', isKey: true },
         { name: 'FullName', type: 'string' },
         { name: 'Department', type: 'string' },
         { name: 'SalesTarget', type: 'number' },
-        { name: 'ActualSales', type: 'number' }
+        { name: 'ActualSales', type: 'number', description: 'Total of the employee\'s non-cancelled orders' }
       ]
     }
   ]
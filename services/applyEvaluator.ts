@@ -0,0 +1,161 @@
+import { DataPoint, ODataOrderByItem } from '../types';
+import { ODataSyntaxError, parseFilter } from './odataFilter';
+import { parseOrderBy, splitTopLevel } from './odataQuery';
+import { UnsupportedQueryError, compareValues, compileExpression, compileFilter } from './filterEvaluator';
+
+type Transformation = (rows: DataPoint[]) => DataPoint[];
+
+// Aggregation methods of the OData Aggregation vocabulary that the local engine implements
+type AggregateMethod = 'sum' | 'average' | 'min' | 'max' | 'countdistinct';
+const AGGREGATE_METHODS: AggregateMethod[] = ['sum', 'average', 'min', 'max', 'countdistinct'];
+
+// Transformations applyTransformations implements, advertised in the schema of local files
+export const LOCAL_APPLY_TRANSFORMATIONS = ['aggregate', 'groupby', 'filter', 'compute', 'orderby', 'top', 'skip', 'identity'];
+
+// Result columns use the dotted form of a path, like rows flattened from a service ("Customer/Country" -> "Customer.Country")
+const columnName = (path: string) => path.replace(/\//g, '.');
+
+const parseInteger = (name: string, text: string): number => {
+  const n = Number(text.trim());
+  if (!Number.isInteger(n) || n < 0) throw new ODataSyntaxError(`${name}() needs a non-negative integer, got "${text}"`, 0);
+  return n;
+};
+
+const aggregateValues = (method: AggregateMethod, values: any[]): any => {
+  // Nulls are ignored by every method
+  const present = values.filter(v => v !== null && v !== undefined);
+  if (method === 'countdistinct') {
+    return new Set(present.map(v => v instanceof Date ? v.getTime() : v)).size;
+  }
+  if (method === 'min' || method === 'max') {
+    if (present.length === 0) return null;
+    return present.reduce((best, v) => (compareValues(v, best) * (method === 'min' ? -1 : 1) > 0 ? v : best));
+  }
+  // sum and average of no (non-null) values are null, as on a service
+  if (present.length === 0) return null;
+  const numbers = present.map(Number);
+  if (numbers.some(isNaN)) throw new UnsupportedQueryError(`${method} needs numeric values`);
+  const sum = numbers.reduce((acc, n) => acc + n, 0);
+  return method === 'sum' ? sum : sum / numbers.length;
+};
+
+// "Amount with sum as Total", "Price mul Quantity with sum as Revenue" or "$count as Count"
+const parseAggregate = (args: string): Transformation => {
+  const items = splitTopLevel(args, ',').map(item => {
+    const count = item.match(/^\$count\s+as\s+(\w+)$/);
+    if (count) return { alias: count[1], compute: (rows: DataPoint[]) => rows.length };
+
+    const match = item.match(/^(.+?)\s+with\s+([\w.]+)\s+as\s+(\w+)$/);
+    if (!match) throw new ODataSyntaxError(`Malformed aggregate expression "${item}"`, 0);
+    const method = match[2] as AggregateMethod;
+    if (!AGGREGATE_METHODS.includes(method)) {
+      throw new UnsupportedQueryError(`Aggregation method "${match[2]}" is not supported in local queries`);
+    }
+    const value = compileExpression(parseFilter(match[1]));
+    return { alias: match[3], compute: (rows: DataPoint[]) => aggregateValues(method, rows.map(value)) };
+  });
+
+  return rows => [Object.fromEntries(items.map(item => [item.alias, item.compute(rows)]))];
+};
+
+// "groupby((Country,City),aggregate(...))": one row per distinct combination, with the
+// nested transformations applied to each group's rows
+const parseGroupBy = (args: string): Transformation => {
+  const [pathList, ...rest] = splitTopLevel(args, ',');
+  if (!pathList?.startsWith('(') || !pathList.endsWith(')')) {
+    throw new ODataSyntaxError(`groupby() needs a parenthesized property list, got "${args}"`, 0);
+  }
+  const paths = splitTopLevel(pathList.substring(1, pathList.length - 1), ',');
+  const readers = paths.map(path => compileExpression({ kind: 'property', path }));
+  const nested = rest.length ? parseSequence(rest.join(',')) : undefined;
+
+  return rows => {
+    const groups = new Map<string, { keys: DataPoint; rows: DataPoint[] }>();
+    rows.forEach(row => {
+      const values = readers.map(read => read(row));
+      const id = JSON.stringify(values);
+      if (!groups.has(id)) {
+        groups.set(id, { keys: Object.fromEntries(paths.map((path, i) => [columnName(path), values[i]])), rows: [] });
+      }
+      groups.get(id)!.rows.push(row);
+    });
+
+    const result: DataPoint[] = [];
+    groups.forEach(group => {
+      if (!nested) result.push(group.keys);
+      else nested(group.rows).forEach(row => result.push({ ...group.keys, ...row }));
+    });
+    return result;
+  };
+};
+
+// "compute(Price mul Quantity as Revenue, year(OrderDate) as Year)"
+const parseCompute = (args: string): Transformation => {
+  const items = splitTopLevel(args, ',').map(item => {
+    const match = item.match(/^(.+?)\s+as\s+(\w+)$/);
+    if (!match) throw new ODataSyntaxError(`Malformed compute expression "${item}"`, 0);
+    return { alias: match[2], value: compileExpression(parseFilter(match[1])) };
+  });
+  return rows => rows.map(row => ({ ...row, ...Object.fromEntries(items.map(item => [item.alias, item.value(row)])) }));
+};
+
+/**
+ * Sorts rows by $orderby items; paths may also name dotted result columns ("Customer/Country").
+ */
+export const sortRows = (rows: DataPoint[], orderby: ODataOrderByItem[]): DataPoint[] => {
+  const items = orderby.map(item => ({
+    read: compileExpression(parseFilter(item.property)),
+    direction: item.direction === 'desc' ? -1 : 1
+  }));
+  return [...rows].sort((a, b) => {
+    for (const item of items) {
+      const order = compareValues(item.read(a), item.read(b)) * item.direction;
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+};
+
+const parseTransformation = (text: string): Transformation => {
+  const match = text.match(/^(\w+)\(([\s\S]*)\)$/);
+  if (!match) throw new ODataSyntaxError(`Malformed $apply transformation "${text}"`, 0);
+  const [, name, args] = match;
+
+  switch (name) {
+    case 'aggregate': return parseAggregate(args);
+    case 'groupby': return parseGroupBy(args);
+    case 'filter': {
+      const predicate = compileFilter(parseFilter(args));
+      return rows => rows.filter(predicate);
+    }
+    case 'compute': return parseCompute(args);
+    case 'orderby': {
+      const orderby = parseOrderBy(args);
+      return rows => sortRows(rows, orderby);
+    }
+    case 'top': {
+      const n = parseInteger('top', args);
+      return rows => rows.slice(0, n);
+    }
+    case 'skip': {
+      const n = parseInteger('skip', args);
+      return rows => rows.slice(n);
+    }
+    case 'identity': return rows => rows;
+    default:
+      throw new UnsupportedQueryError(`$apply transformation "${name}" is not supported in local queries`);
+  }
+};
+
+// Transformations separated by "/" outside parentheses, applied left to right
+const parseSequence = (apply: string): Transformation => {
+  const steps = splitTopLevel(apply, '/').map(parseTransformation);
+  return rows => steps.reduce((current, step) => step(current), rows);
+};
+
+/**
+ * Runs a $apply transformation sequence over local rows, the way an aggregation-capable service would:
+ * groupby, aggregate (sum, average, min, max, countdistinct, $count), filter, compute, orderby, top and skip.
+ * Throws ODataSyntaxError for malformed input and UnsupportedQueryError for anything else.
+ */
+export const applyTransformations = (rows: DataPoint[], apply: string): DataPoint[] => parseSequence(apply.trim())(rows);
@@ -0,0 +1,141 @@
+import { AuthConfig } from '../types';
+
+/**
+ * Supplies authentication headers for data service requests.
+ */
+export interface AuthStrategy {
+  type: AuthConfig['type'];
+  getHeaders: () => Promise<Record<string, string>>;
+  // Called after a 401. Resolves true when new credentials were obtained and a retry makes sense.
+  reauthenticate: () => Promise<boolean>;
+}
+
+interface OAuthToken {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number; // epoch ms
+  refreshToken?: string;
+}
+
+// Refresh a little before the token actually expires to avoid racing the server clock
+const EXPIRY_MARGIN_MS = 30_000;
+
+const staticStrategy = (type: AuthConfig['type'], headers: Record<string, string>): AuthStrategy => ({
+  type,
+  getHeaders: async () => ({ ...headers }),
+  reauthenticate: async () => false
+});
+
+/**
+ * Requests a token from an OAuth2 token endpoint (RFC 6749 form-encoded POST).
+ */
+const requestToken = async (tokenUrl: string, params: Record<string, string | undefined>): Promise<OAuthToken> => {
+  const body = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) body.set(key, value);
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body
+    });
+  } catch (error: any) {
+    throw new Error(`שגיאת תקשורת מול שרת ההזדהות (${tokenUrl}).`);
+  }
+
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok || !json.access_token) {
+    const reason = json.error_description || json.error || response.statusText;
+    throw new Error(`שגיאת אימות OAuth2: ${reason}`);
+  }
+
+  return {
+    accessToken: json.access_token,
+    tokenType: json.token_type || 'Bearer',
+    // Servers that omit expires_in get treated as one-hour tokens
+    expiresAt: Date.now() + (Number(json.expires_in) || 3600) * 1000,
+    refreshToken: json.refresh_token
+  };
+};
+
+const oauth2Strategy = (config: Extract<AuthConfig, { type: 'oauth2' }>): AuthStrategy => {
+  let token: OAuthToken | null = null;
+  // Concurrent widgets share one token request
+  let pending: Promise<OAuthToken> | null = null;
+
+  const grant = (): Promise<OAuthToken> => {
+    const base = { client_id: config.clientId, client_secret: config.clientSecret, scope: config.scope };
+    return config.grantType === 'password'
+      ? requestToken(config.tokenUrl, { ...base, grant_type: 'password', username: config.username, password: config.password })
+      : requestToken(config.tokenUrl, { ...base, grant_type: 'client_credentials' });
+  };
+
+  const refresh = async (): Promise<OAuthToken> => {
+    const refreshToken = token?.refreshToken;
+    if (refreshToken) {
+      try {
+        return await requestToken(config.tokenUrl, {
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: config.clientId,
+          client_secret: config.clientSecret
+        });
+      } catch (e) {
+        // Refresh token expired or revoked: fall back to the original grant
+      }
+    }
+    return grant();
+  };
+
+  const obtainToken = (): Promise<OAuthToken> => {
+    if (!pending) {
+      pending = refresh()
+        .then(t => { token = t; return t; })
+        .finally(() => { pending = null; });
+    }
+    return pending;
+  };
+
+  return {
+    type: 'oauth2',
+    getHeaders: async () => {
+      const current = token && token.expiresAt - EXPIRY_MARGIN_MS > Date.now() ? token : await obtainToken();
+      return { Authorization: `${current.tokenType} ${current.accessToken}` };
+    },
+    reauthenticate: async () => {
+      if (token) token = { ...token, expiresAt: 0 };
+      try {
+        await obtainToken();
+        return true;
+      } catch (e) {
+        return false;
+      }
+    }
+  };
+};
+
+/**
+ * Creates the strategy for a connection's auth configuration.
+ */
+export const createAuthStrategy = (config: AuthConfig): AuthStrategy => {
+  switch (config.type) {
+    case 'basic':
+      if (!config.username || !config.password) return staticStrategy('basic', {});
+      return staticStrategy('basic', { Authorization: `Basic ${btoa(`${config.username}:${config.password}`)}` });
+    case 'bearer':
+      return staticStrategy('bearer', config.token ? { Authorization: `Bearer ${config.token}` } : {});
+    case 'apiKey':
+      return staticStrategy('apiKey', config.headerName && config.apiKey ? { [config.headerName]: config.apiKey } : {});
+    case 'oauth2':
+      return oauth2Strategy(config);
+    case 'none':
+    default:
+      return staticStrategy('none', {});
+  }
+};
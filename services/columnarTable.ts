@@ -0,0 +1,66 @@
+import { DataPoint } from '../types';
+
+// One column of a table. Numeric columns live in a typed array so they can be transferred between threads
+// without copying; nulls are marked in a separate mask because NaN is a legitimate value.
+export type Column =
+  | { kind: 'number'; values: Float64Array; nulls?: Uint8Array }
+  | { kind: 'value'; values: any[] }; // Strings, booleans, mixed
+
+export interface ColumnarTable {
+  rowCount: number;
+  names: string[];
+  columns: Column[];
+}
+
+const toColumn = (values: any[]): Column => {
+  if (!values.every(v => v === null || v === undefined || typeof v === 'number')) return { kind: 'value', values };
+  const numbers = new Float64Array(values.length);
+  let nulls: Uint8Array | undefined;
+  values.forEach((v, i) => {
+    if (typeof v === 'number') {
+      numbers[i] = v;
+    } else {
+      nulls = nulls || new Uint8Array(values.length);
+      nulls[i] = 1;
+    }
+  });
+  return { kind: 'number', values: numbers, nulls };
+};
+
+/**
+ * Column-oriented copy of rows. Columns are those of any row, in first-seen order.
+ */
+export const toColumnar = (rows: DataPoint[]): ColumnarTable => {
+  const names = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => names.add(key)));
+  const list = Array.from(names);
+  return {
+    rowCount: rows.length,
+    names: list,
+    columns: list.map(name => toColumn(rows.map(row => row[name] ?? null)))
+  };
+};
+
+/**
+ * Rows of a columnar table; null values are included.
+ */
+export const fromColumnar = (table: ColumnarTable): DataPoint[] => {
+  const rows: DataPoint[] = Array.from({ length: table.rowCount }, () => ({}));
+  table.columns.forEach((column, c) => {
+    const name = table.names[c];
+    if (column.kind === 'number') {
+      rows.forEach((row, i) => { row[name] = column.nulls?.[i] ? null : column.values[i]; });
+    } else {
+      rows.forEach((row, i) => { row[name] = column.values[i]; });
+    }
+  });
+  return rows;
+};
+
+/**
+ * Buffers to list as transferables when posting the table to another thread. The table is unusable on the sending side afterwards.
+ */
+export const transferables = (table: ColumnarTable): ArrayBuffer[] =>
+  table.columns.flatMap(column => column.kind === 'number'
+    ? [column.values.buffer as ArrayBuffer, ...(column.nulls ? [column.nulls.buffer as ArrayBuffer] : [])]
+    : []);
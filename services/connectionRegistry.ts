@@ -0,0 +1,91 @@
+import { AuthConfig, ConnectionKind, DashboardWidgetConfig, DataConnection, DataPoint, DatabaseSchema, LocalDataset } from '../types';
+import { AuthStrategy } from './authService';
+import { executeODataQuery } from './odataService';
+
+// Short badge text per source kind
+export const CONNECTION_KIND_LABELS: Record<ConnectionKind, string> = {
+  odata: 'API',
+  file: 'File',
+  sql: 'BQ',
+  timbr: 'KG'
+};
+
+// Readable name of an OData service: the last path segment ("Northwind.svc" -> "Northwind"), else the host
+const serviceName = (baseUrl: string): string => {
+  try {
+    const url = new URL(baseUrl);
+    const segment = url.pathname.split('/').filter(Boolean).pop();
+    return segment ? segment.replace(/\.svc$/i, '') : url.host;
+  } catch {
+    return baseUrl;
+  }
+};
+
+const normalizeUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Known before the schema is fetched, so schema change reports can be keyed by it
+export const odataConnectionId = (baseUrl: string): string => `odata:${normalizeUrl(baseUrl)}`;
+
+export const createODataConnection = (baseUrl: string, authConfig: AuthConfig, schema: DatabaseSchema): DataConnection => {
+  const url = normalizeUrl(baseUrl);
+  return { id: odataConnectionId(url), kind: 'odata', label: serviceName(url), schema, baseUrl: url, authConfig };
+};
+
+export const createFileConnection = (fileName: string, dataset: LocalDataset, schema: DatabaseSchema): DataConnection => ({
+  id: `file:${fileName}`, kind: 'file', label: fileName, schema, dataset
+});
+
+export const createSqlConnection = (projectId: string, datasetId: string, schema: DatabaseSchema): DataConnection => ({
+  id: `sql:${projectId}.${datasetId}`, kind: 'sql', label: `${projectId}.${datasetId}`, schema, params: { projectId, datasetId }
+});
+
+export const createTimbrConnection = (ontology: string, token: string, schema: DatabaseSchema): DataConnection => ({
+  id: `timbr:${ontology}`, kind: 'timbr', label: ontology, schema, params: { ontology, token }
+});
+
+/**
+ * Adds a connection, or replaces the one with the same id (a reconnect) in place.
+ */
+export const upsertConnection = (connections: DataConnection[], connection: DataConnection): DataConnection[] =>
+  connections.some(c => c.id === connection.id)
+    ? connections.map(c => c.id === connection.id ? connection : c)
+    : [...connections, connection];
+
+/**
+ * The connection a widget queries. Widgets created before connections were tracked use the first one.
+ */
+export const findWidgetConnection = (connections: DataConnection[], widget: DashboardWidgetConfig): DataConnection | undefined =>
+  connections.find(c => c.id === widget.connectionId) || (widget.connectionId ? undefined : connections[0]);
+
+/**
+ * Rows of a widget's query on its connection: the SQLite query of a file widget that has one, else the
+ * OData query. SQL sources (BigQuery, Timbr) are queried by WidgetCard and return no rows here.
+ */
+export const executeWidgetQuery = async (connection: DataConnection, widget: DashboardWidgetConfig, auth?: AuthStrategy): Promise<DataPoint[]> => {
+  switch (connection.kind) {
+    case 'odata': return executeODataQuery(connectionBaseUrl(connection), widget.odataQuery, auth);
+    case 'file':
+      if (!connection.dataset) return [];
+      return widget.sqlQuery ? connection.dataset.sql(widget.sqlQuery) : connection.dataset.query(widget.odataQuery);
+    default: return [];
+  }
+};
+
+/**
+ * Drill-down lists the raw rows with an OData query, which only services and uploaded files answer.
+ * Widgets with a SQL query have no OData query to drill into.
+ */
+export const canDrillDown = (connection: DataConnection, widget?: DashboardWidgetConfig): boolean =>
+  (connection.kind === 'odata' || connection.kind === 'file') && !widget?.sqlQuery;
+
+/**
+ * The baseUrl WidgetCard expects: the service URL for OData, a marker for the other kinds.
+ */
+export const connectionBaseUrl = (connection: DataConnection): string => {
+  switch (connection.kind) {
+    case 'file': return 'LOCAL_FILE_MODE';
+    case 'sql': return 'BigQuery';
+    case 'timbr': return 'Timbr';
+    default: return connection.baseUrl || '';
+  }
+};
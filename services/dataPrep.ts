@@ -0,0 +1,191 @@
+import { DataPoint, DatabaseSchema, LocalData, NormalizeMode, PrepProblem, PrepStep, SchemaField } from '../types';
+import { parseFilter } from './odataFilter';
+import { compileExpression, compileFilter } from './filterEvaluator';
+import { convertValue, inferColumns } from './typeInference';
+
+const RECIPES_STORAGE_KEY = 'odata_genius_recipes';
+
+// A recipe is kept per file name with the digits left out, so "sales-2024-05.xlsx" and "sales-2024-06.xlsx" share one
+export const recipeKey = (fileName: string) => fileName.trim().toLowerCase().replace(/\d+/g, '#');
+
+const readRecipes = (): Record<string, PrepStep[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECIPES_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to parse recipes", e);
+    return {};
+  }
+};
+
+export const loadRecipe = (fileName: string): PrepStep[] | undefined => readRecipes()[recipeKey(fileName)];
+
+// Saving an empty recipe forgets the file's recipe
+export const saveRecipe = (fileName: string, steps: PrepStep[]) => {
+  const { [recipeKey(fileName)]: _previous, ...recipes } = readRecipes();
+  localStorage.setItem(RECIPES_STORAGE_KEY, JSON.stringify(steps.length ? { ...recipes, [recipeKey(fileName)]: steps } : recipes));
+};
+
+const normalizers: Record<NormalizeMode, (text: string) => string> = {
+  trim: text => text.trim(),
+  collapse: text => text.trim().replace(/\s+/g, ' '),
+  lower: text => text.toLowerCase(),
+  upper: text => text.toUpperCase()
+};
+
+// Rows with their columns rebuilt in order, so renamed and inserted columns keep their place
+const reshape = (rows: DataPoint[], columns: string[], value: (row: DataPoint, column: string) => any): DataPoint[] =>
+  rows.map(row => Object.fromEntries(columns.map(column => [column, value(row, column)])));
+
+// Evaluation errors (e.g. month() of a text column) are reported for the step rather than per row
+const evaluate = <T>(run: () => T): T => {
+  try {
+    return run();
+  } catch (e: any) {
+    throw new Error(`החישוב נכשל: ${e.message}`);
+  }
+};
+
+// Types new columns from their values, as if they had been uploaded that way
+const typeNewColumns = (rows: DataPoint[], names: string[]): { fields: SchemaField[]; rows: DataPoint[] } => {
+  const { fields, rows: typed } = inferColumns(rows.map(row => Object.fromEntries(names.map(name => [name, row[name]]))));
+  return {
+    fields: names.map(name => fields.find(f => f.name === name) || { name, type: 'Edm.String' }),
+    rows: rows.map((row, i) => ({ ...row, ...typed[i] }))
+  };
+};
+
+interface EntityState {
+  rows: DataPoint[];
+  fields: SchemaField[];
+}
+
+/**
+ * Applies one step to an entity. Throws (with a message for the user) when the step doesn't fit the entity.
+ */
+const applyStep = ({ rows, fields }: EntityState, step: PrepStep): EntityState => {
+  const names = fields.map(f => f.name);
+  const requireColumn = (column: string) => {
+    if (!names.includes(column)) throw new Error(`העמודה "${column}" לא קיימת`);
+  };
+  const requireNew = (column: string) => {
+    if (!column.trim()) throw new Error('חסר שם לעמודה החדשה');
+    if (names.includes(column)) throw new Error(`העמודה "${column}" כבר קיימת`);
+  };
+
+  switch (step.kind) {
+    case 'rename': {
+      requireColumn(step.column);
+      if (step.to !== step.column) requireNew(step.to);
+      const columns = names.map(n => n === step.column ? step.to : n);
+      return {
+        rows: reshape(rows, columns, (row, column) => row[column === step.to ? step.column : column]),
+        fields: fields.map(f => f.name === step.column ? { ...f, name: step.to, label: undefined } : f)
+      };
+    }
+    case 'retype':
+      requireColumn(step.column);
+      return {
+        rows: rows.map(row => ({ ...row, [step.column]: convertValue(row[step.column], step.type) })),
+        fields: fields.map(f => f.name === step.column ? { ...f, type: step.type } : f)
+      };
+    case 'dropColumn': {
+      requireColumn(step.column);
+      const columns = names.filter(n => n !== step.column);
+      return { rows: reshape(rows, columns, (row, column) => row[column]), fields: fields.filter(f => f.name !== step.column) };
+    }
+    case 'dropRows': {
+      let matches: (row: DataPoint) => boolean;
+      try {
+        matches = compileFilter(parseFilter(step.filter));
+      } catch (e: any) {
+        throw new Error(`תנאי לא תקין: ${e.message}`);
+      }
+      return { rows: evaluate(() => rows.filter(row => !matches(row))), fields };
+    }
+    case 'normalize': {
+      requireColumn(step.column);
+      const normalize = normalizers[step.mode];
+      return {
+        rows: rows.map(row => {
+          const value = row[step.column];
+          if (typeof value !== 'string') return row;
+          const text = normalize(value);
+          return { ...row, [step.column]: text === '' ? null : text };
+        }),
+        fields
+      };
+    }
+    case 'split': {
+      requireColumn(step.column);
+      if (!step.separator) throw new Error('חסר תו מפריד');
+      if (step.into.length === 0) throw new Error('חסרים שמות לעמודות החדשות');
+      step.into.forEach(requireNew);
+      const at = names.indexOf(step.column) + 1;
+      const columns = [...names.slice(0, at), ...step.into, ...names.slice(at)];
+      const split = reshape(rows, columns, (row, column) => {
+        const part = step.into.indexOf(column);
+        if (part === -1) return row[column];
+        const value = row[step.column];
+        if (value === null || value === undefined) return null;
+        const pieces = String(value).split(step.separator);
+        // The last new column takes the rest, so no text is lost
+        const piece = part === step.into.length - 1 ? pieces.slice(part).join(step.separator) : pieces[part];
+        return piece === undefined || piece.trim() === '' ? null : piece.trim();
+      });
+      const typed = typeNewColumns(split, step.into);
+      return { rows: typed.rows, fields: [...fields.slice(0, at), ...typed.fields, ...fields.slice(at)] };
+    }
+    case 'merge': {
+      if (step.columns.length < 2) throw new Error('יש לבחור לפחות שתי עמודות למיזוג');
+      step.columns.forEach(requireColumn);
+      requireNew(step.into);
+      const merged = rows.map(row => {
+        const parts = step.columns.map(c => row[c]).filter(v => v !== null && v !== undefined && v !== '');
+        return { ...row, [step.into]: parts.length ? parts.join(step.separator) : null };
+      });
+      return { rows: merged, fields: [...fields, { name: step.into, type: 'Edm.String' }] };
+    }
+    case 'calculate': {
+      requireNew(step.column);
+      let compute: (row: DataPoint) => any;
+      try {
+        compute = compileExpression(parseFilter(step.expression));
+      } catch (e: any) {
+        throw new Error(`ביטוי לא תקין: ${e.message}`);
+      }
+      const computed = evaluate(() => rows.map(row => ({ ...row, [step.column]: compute(row) })));
+      const typed = typeNewColumns(computed, [step.column]);
+      return { rows: typed.rows, fields: [...fields, ...typed.fields] };
+    }
+  }
+};
+
+/**
+ * Replays a preparation recipe on an uploaded file's rows and schema, step by step. A step that doesn't
+ * fit the data (a missing column, a bad expression) is skipped and reported, so the rest of a recipe
+ * recorded on last month's file still applies to this month's.
+ */
+export const applyRecipe = (data: LocalData, schema: DatabaseSchema, steps: PrepStep[]): { data: LocalData; schema: DatabaseSchema; problems: PrepProblem[] } => {
+  const state: Record<string, EntityState> = Object.fromEntries(
+    schema.entities.map(entity => [entity.name, { rows: data[entity.name] || [], fields: entity.fields }]));
+  const problems: PrepProblem[] = [];
+
+  steps.forEach((step, index) => {
+    const entity = state[step.entity];
+    if (!entity) {
+      problems.push({ step: index, message: `הגיליון "${step.entity}" לא קיים` });
+      return;
+    }
+    try {
+      state[step.entity] = applyStep(entity, step);
+    } catch (e: any) {
+      problems.push({ step: index, message: e.message });
+    }
+  });
+
+  return {
+    data: Object.fromEntries(Object.entries(state).map(([name, entity]) => [name, entity.rows])),
+    schema: { ...schema, entities: schema.entities.map(entity => ({ ...entity, fields: state[entity.name].fields })) },
+    problems
+  };
+};
@@ -0,0 +1,134 @@
+import { DataPoint, DatabaseSchema, ODataLiteralExpression, ODataVersion, SchemaEntity, SchemaField } from '../types';
+import { formatLiteral } from './odataFilter';
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  'Edm.Byte': [0, 255],
+  'Edm.SByte': [-128, 127],
+  'Edm.Int16': [-32768, 32767],
+  'Edm.Int32': [-2147483648, 2147483647],
+  'Edm.Int64': [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]
+};
+
+const DECIMAL_TYPES = ['Edm.Decimal', 'Edm.Double', 'Edm.Single'];
+
+// Literal forms that differ from plain strings and numbers in URLs (see formatLiteral)
+const TYPED_LITERALS = [
+  'Edm.Decimal', 'Edm.Int64', 'Edm.Double', 'Edm.Single', 'Edm.Guid', 'Edm.DateTimeOffset',
+  'Edm.DateTime', 'Edm.Date', 'Edm.Time', 'Edm.Duration', 'Edm.Binary'
+];
+
+const GUID_PATTERN = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?$/;
+const DURATION_PATTERN = /^-?P(?=\d|T\d)(\d+D)?(T(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+
+export interface EdmParseResult {
+  value?: any;
+  error?: string;
+}
+
+/**
+ * Whether a field can be edited as text: primitive Edm types and enums (not complex, collection, binary or spatial).
+ */
+export const isEditableField = (field: SchemaField, schema: DatabaseSchema): boolean => {
+  if (field.readOnly || field.type.startsWith('Collection(')) return false;
+  if (schema.enumTypes?.some(en => en.name === field.type)) return true;
+  return field.type.startsWith('Edm.') && !field.type.startsWith('Edm.Geo') && field.type !== 'Edm.Binary' && field.type !== 'Edm.Stream';
+};
+
+/**
+ * Converts text typed by the user into the JSON value the service expects for the field's Edm type.
+ * Returns an error message (Hebrew, shown next to the input) when the text doesn't fit the type.
+ */
+export const parseEdmInput = (input: string, field: SchemaField, schema: DatabaseSchema, version: ODataVersion = '4.0'): EdmParseResult => {
+  const text = input.trim();
+  if (text === '') {
+    if (field.nullable === false) return { error: 'שדה חובה' };
+    return { value: null };
+  }
+
+  const enumType = schema.enumTypes?.find(en => en.name === field.type);
+  if (enumType) {
+    const members = enumType.isFlags ? text.split(',').map(m => m.trim()) : [text];
+    const unknown = members.find(m => !enumType.members.some(member => member.name === m));
+    if (unknown) return { error: `ערך לא חוקי. ערכים אפשריים: ${enumType.members.map(m => m.name).join(', ')}` };
+    return { value: members.join(',') };
+  }
+
+  const range = INTEGER_RANGES[field.type];
+  if (range) {
+    const n = Number(text);
+    if (!Number.isInteger(n)) return { error: 'נדרש מספר שלם' };
+    if (n < range[0] || n > range[1]) return { error: `הערך חייב להיות בין ${range[0]} ל-${range[1]}` };
+    // v2 JSON carries Int64 as a string
+    return { value: version === '2.0' && field.type === 'Edm.Int64' ? String(n) : n };
+  }
+
+  if (DECIMAL_TYPES.includes(field.type)) {
+    const n = Number(text);
+    if (isNaN(n)) return { error: 'נדרש מספר' };
+    return { value: version === '2.0' && field.type === 'Edm.Decimal' ? text : n };
+  }
+
+  switch (field.type) {
+    case 'Edm.String':
+      if (field.maxLength && text.length > field.maxLength) return { error: `עד ${field.maxLength} תווים` };
+      return { value: input };
+    case 'Edm.Boolean':
+      if (text !== 'true' && text !== 'false') return { error: 'נדרש true או false' };
+      return { value: text === 'true' };
+    case 'Edm.Guid':
+      return GUID_PATTERN.test(text) ? { value: text } : { error: 'מזהה GUID לא תקין' };
+    case 'Edm.Date':
+      return DATE_PATTERN.test(text) && !isNaN(Date.parse(text)) ? { value: text } : { error: 'תאריך בפורמט YYYY-MM-DD' };
+    case 'Edm.TimeOfDay':
+      return TIME_OF_DAY_PATTERN.test(text) ? { value: text } : { error: 'שעה בפורמט HH:MM:SS' };
+    case 'Edm.Time':
+    case 'Edm.Duration':
+      return DURATION_PATTERN.test(text) ? { value: text } : { error: 'משך בפורמט ISO 8601, למשל PT1H30M' };
+    case 'Edm.DateTimeOffset':
+    case 'Edm.DateTime': {
+      const time = Date.parse(text);
+      if (isNaN(time)) return { error: 'תאריך ושעה לא תקינים' };
+      const iso = new Date(time).toISOString();
+      // v2 DateTime has no offset
+      return { value: field.type === 'Edm.DateTime' ? iso.substring(0, 19) : iso };
+    }
+    default:
+      return { value: input };
+  }
+};
+
+/**
+ * Text shown in an input for an existing value.
+ */
+export const formatEdmInput = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Literal for a JSON value of the given Edm (or enum) type, as used in key predicates and function parameters.
+ */
+export const edmLiteral = (value: any, type: string): ODataLiteralExpression => ({
+  kind: 'literal',
+  value: INTEGER_RANGES[type] && type !== 'Edm.Int64' && value !== null ? Number(value) : value,
+  type: TYPED_LITERALS.includes(type) || !type.startsWith('Edm.') ? type : undefined
+});
+
+/**
+ * Builds the key predicate of a row, e.g. "(10248)" or "(OrderID=10248,ProductID=11)".
+ */
+export const buildKeyPredicate = (entity: SchemaEntity, row: DataPoint, version: ODataVersion = '4.0'): string => {
+  const keys = entity.keys || [];
+  if (keys.length === 0) throw new Error(`לישות ${entity.name} אין מפתח מוגדר`);
+
+  const literals = keys.map(key => {
+    const value = row[key];
+    if (value === undefined || value === null) throw new Error(`חסר ערך למפתח ${key}`);
+    const type = entity.fields.find(f => f.name === key)?.type || 'Edm.String';
+    return encodeURIComponent(formatLiteral(edmLiteral(value, type), version));
+  });
+
+  return keys.length === 1 ? `(${literals[0]})` : `(${keys.map((key, i) => `${key}=${literals[i]}`).join(',')})`;
+};
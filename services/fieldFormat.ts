@@ -0,0 +1,101 @@
+import { DataPoint, DatabaseSchema, SchemaField } from '../types';
+
+// Currency or unit a numeric result column is measured in
+export interface Measure {
+  currency?: string; // ISO 4217 code
+  unit?: string;
+}
+
+// Aggregations whose result keeps the unit of the aggregated property (count does not)
+const UNIT_PRESERVING = ['sum', 'average', 'min', 'max'];
+
+/**
+ * Maps the aliases of a $apply aggregate to the property they aggregate,
+ * e.g. "aggregate(Freight with sum as Total)" gives Total -> Freight.
+ */
+const aggregateSources = (apply: string): Map<string, string> => {
+  const sources = new Map<string, string>();
+  const pattern = /([\w/]+)\s+with\s+(\w+)\s+as\s+(\w+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(apply))) {
+    if (UNIT_PRESERVING.includes(match[2])) sources.set(match[3], match[1].replace(/\//g, '.'));
+  }
+  return sources;
+};
+
+/**
+ * The schema field behind a result column: a property, a dotted path through complex types and
+ * expanded navigation properties ("Customer.Country"), or a $apply aggregate alias of one of them.
+ */
+export const resolveResultField = (schema: DatabaseSchema, entityName: string, key: string, apply?: string): SchemaField | undefined => {
+  const entity = schema.entities.find(e => e.name === entityName);
+  if (!entity || !key) return undefined;
+
+  const path = (apply && aggregateSources(apply).get(key)) || key;
+  let fields = entity.fields;
+  let navigation = entity.navigationProperties || [];
+  const segments = path.split('.');
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const field = fields.find(f => f.name === segments[i]);
+    const nav = navigation.find(n => n.name === segments[i]);
+    const typeName = (field?.type || nav?.targetType || '').replace(/^Collection\((.*)\)$/, '$1');
+    const target = schema.entities.find(e => e.entityType === typeName);
+    const complexType = schema.complexTypes?.find(ct => ct.name === typeName);
+    if (target) {
+      fields = target.fields;
+      navigation = target.navigationProperties || [];
+    } else if (complexType) {
+      fields = complexType.fields;
+      navigation = [];
+    } else {
+      return undefined;
+    }
+  }
+
+  return fields.find(f => f.name === segments[segments.length - 1]);
+};
+
+/**
+ * Currency or unit of a result column. A code held in another property of the row is used
+ * only when all rows agree on it; mixed currencies are not formatted.
+ */
+export const resolveMeasure = (schema: DatabaseSchema, entityName: string, key: string, rows: DataPoint[], apply?: string): Measure => {
+  const field = resolveResultField(schema, entityName, key, apply);
+  if (!field) return {};
+  if (field.currency) return { currency: field.currency };
+  if (field.unit) return { unit: field.unit };
+
+  const codeProperty = field.currencyProperty || field.unitProperty;
+  if (!codeProperty) return {};
+  // The code property sits next to the measured one, so it shares the dotted prefix
+  const prefix = key.includes('.') ? key.substring(0, key.lastIndexOf('.') + 1) : '';
+  const codes = new Set(rows.map(row => row[prefix + codeProperty]).filter(code => code !== undefined && code !== null && code !== ''));
+  if (codes.size !== 1) return {};
+  const code = String(Array.from(codes)[0]);
+  return field.currencyProperty ? { currency: code } : { unit: code };
+};
+
+/**
+ * Formats a number with its currency symbol or unit. Compact notation is meant for axis ticks.
+ */
+export const formatMeasure = (value: number, measure: Measure, options: { compact?: boolean; maximumFractionDigits?: number } = {}): string => {
+  const numberOptions: Intl.NumberFormatOptions = {
+    notation: options.compact ? 'compact' : 'standard',
+    maximumFractionDigits: options.maximumFractionDigits,
+    // Currencies default to a minimum of 2 digits, which would conflict with a lower maximum
+    minimumFractionDigits: options.maximumFractionDigits !== undefined ? 0 : undefined
+  };
+
+  if (measure.currency) {
+    try {
+      return value.toLocaleString(undefined, { ...numberOptions, style: 'currency', currency: measure.currency });
+    } catch {
+      // Not an ISO 4217 code the browser knows; show the code as a unit instead
+      return `${value.toLocaleString(undefined, numberOptions)} ${measure.currency}`;
+    }
+  }
+
+  const formatted = value.toLocaleString(undefined, numberOptions);
+  return measure.unit ? `${formatted} ${measure.unit}` : formatted;
+};
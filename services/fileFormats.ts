@@ -0,0 +1,181 @@
+import * as XLSX from 'xlsx';
+import { parquetReadObjects } from 'hyparquet';
+import { DataPoint } from '../types';
+
+export type FileFormat = 'spreadsheet' | 'csv' | 'json' | 'ndjson' | 'parquet';
+
+// Rows read from a file, before entity naming and type inference
+export interface RawTable {
+  name: string; // As in the file: sheet, file or property name
+  rows: DataPoint[];
+  // Set on rows exploded from an array: their `column` holds the `parentColumn` of the row of `table` that held it
+  parent?: { table: string; column: string; parentColumn: string };
+}
+
+// Preferred names of the columns linking rows exploded from an array to the row that held it
+const ROW_ID_COLUMN = '_id';
+const PARENT_ID_COLUMN = '_parentId';
+
+const PARQUET_MAGIC = 'PAR1';
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * Format of an uploaded file, by extension and, for unknown extensions, by its first bytes.
+ */
+export const detectFormat = (content: ArrayBuffer, fileName: string): FileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  if (extension === 'parquet') return 'parquet';
+  if (extension === 'json') return 'json';
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+  if (extension === 'csv') return 'csv';
+  if (['xlsx', 'xlsm', 'xlsb', 'xls', 'ods'].includes(extension)) return 'spreadsheet';
+
+  const head = new TextDecoder().decode(content.slice(0, 64));
+  if (head.startsWith(PARQUET_MAGIC)) return 'parquet';
+  if (/^\s*[[{]/.test(head)) return 'json';
+  return 'spreadsheet';
+};
+
+const isRecord = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !ArrayBuffer.isView(value);
+
+// Values every later step understands: INT64 columns of Parquet come back as BigInt, timestamps as Dates
+const toScalar = (value: any): any => {
+  if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  return value;
+};
+
+// The name, or the name with "_2", "_3"... appended, whichever the table's own columns don't use
+const unusedColumn = (base: string, used: Set<string>): string => {
+  let name = base;
+  for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+  used.add(name);
+  return name;
+};
+
+const flattenTable = (name: string, records: any[], parent?: { table: string; idColumn: string; ids: number[] }): RawTable[] => {
+  const children = new Map<string, { items: any[]; parentIds: number[] }>();
+
+  const rows = records.map((record, index) => {
+    const row: DataPoint = {};
+    const visit = (value: Record<string, any>, prefix: string) => {
+      Object.entries(value).forEach(([key, v]) => {
+        const column = prefix ? `${prefix}.${key}` : key;
+        if (Array.isArray(v)) {
+          if (!children.has(column)) children.set(column, { items: [], parentIds: [] });
+          const child = children.get(column)!;
+          v.forEach(item => {
+            child.items.push(item);
+            child.parentIds.push(index + 1);
+          });
+        } else if (isRecord(v)) {
+          visit(v, column);
+        } else {
+          row[column] = toScalar(v);
+        }
+      });
+    };
+    visit(isRecord(record) ? record : { value: record }, '');
+    return row;
+  });
+
+  // Link columns get names the records don't use themselves (MongoDB exports have their own "_id")
+  const used = new Set<string>();
+  rows.forEach(row => {
+    for (const key in row) used.add(key);
+  });
+  // Only rows that other tables point to get an id
+  const idColumn = children.size ? unusedColumn(ROW_ID_COLUMN, used) : undefined;
+  const link = parent && { ...parent, column: unusedColumn(PARENT_ID_COLUMN, used) };
+
+  const tables: RawTable[] = [{
+    name,
+    rows: idColumn || link ? rows.map((row, i) => ({
+      ...(idColumn ? { [idColumn]: i + 1 } : {}),
+      ...(link ? { [link.column]: link.ids[i] } : {}),
+      ...row
+    })) : rows,
+    parent: link && { table: link.table, column: link.column, parentColumn: link.idColumn }
+  }];
+  children.forEach(({ items, parentIds }, column) => {
+    if (items.length && idColumn) tables.push(...flattenTable(`${name}_${column}`, items, { table: name, idColumn, ids: parentIds }));
+  });
+  return tables;
+};
+
+/**
+ * Flattens nested records into rows: nested objects become dotted columns ("address.city"), and each
+ * array becomes a child table named "<name>_<column>", one row per element, whose RawTable.parent names
+ * the columns linking it to the row it came from: an "_id" (1-based position) on the parent and a "_parentId"
+ * on the child, numbered ("_id_2") when the records have such a column of their own. Arrays of values give a "value" column.
+ */
+export const flattenRecords = (name: string, records: any[]): RawTable[] => flattenTable(name, records);
+
+const readSpreadsheet = (content: ArrayBuffer, fileName: string, isCsv: boolean): RawTable[] => {
+  // Date-formatted Excel cells come back as Dates; CSV text is left unparsed so dates keep their dd/mm order
+  const workbook = XLSX.read(content, { type: 'array', cellDates: true, raw: isCsv });
+  return workbook.SheetNames.map(sheetName => ({
+    name: isCsv ? baseName(fileName) : sheetName,
+    // defval keeps blank cells, so a column is known even when its first cells are empty
+    rows: XLSX.utils.sheet_to_json<DataPoint>(workbook.Sheets[sheetName], { defval: null })
+  }));
+};
+
+// A top-level array is one table. In an object, each array of records is a table named after its property;
+// a single one ({ "value": [...] } from an OData or REST export) is named after the file.
+const readJsonValue = (value: any, fileName: string): RawTable[] => {
+  if (Array.isArray(value)) return flattenRecords(baseName(fileName), value);
+  if (!isRecord(value)) throw new Error('קובץ ה-JSON אינו מכיל רשומות');
+  const arrays = Object.entries(value).filter(([, v]) => Array.isArray(v) && v.some(isRecord));
+  if (arrays.length === 1) return flattenRecords(baseName(fileName), arrays[0][1]);
+  if (arrays.length > 1) return arrays.flatMap(([key, v]) => flattenRecords(key, v));
+  return flattenRecords(baseName(fileName), [value]);
+};
+
+const readNdjson = (text: string, fileName: string): RawTable[] => {
+  const records = text.split(/\r?\n/).flatMap((line, i) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line)];
+    } catch {
+      throw new Error(`שורה ${i + 1} בקובץ אינה JSON תקין`);
+    }
+  });
+  return flattenRecords(baseName(fileName), records);
+};
+
+const readJson = (content: ArrayBuffer, fileName: string): RawTable[] => {
+  const text = new TextDecoder().decode(content);
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (err: any) {
+    // Many ".json" exports are really one record per line
+    if (text.trim().split(/\r?\n/).length > 1) return readNdjson(text, fileName);
+    throw new Error(`קובץ JSON לא תקין: ${err.message}`);
+  }
+  return readJsonValue(value, fileName);
+};
+
+const readParquet = async (content: ArrayBuffer, fileName: string): Promise<RawTable[]> => {
+  const records = await parquetReadObjects({ file: content });
+  return flattenRecords(baseName(fileName), records);
+};
+
+/**
+ * Reads the tables of an uploaded file: one per sheet for spreadsheets, the records of JSON, NDJSON and
+ * Parquet files flattened by flattenRecords. Empty tables are dropped.
+ */
+export const readTables = async (content: ArrayBuffer, fileName: string): Promise<RawTable[]> => {
+  const format = detectFormat(content, fileName);
+  let tables: RawTable[];
+  switch (format) {
+    case 'parquet': tables = await readParquet(content, fileName); break;
+    case 'json': tables = readJson(content, fileName); break;
+    case 'ndjson': tables = readNdjson(new TextDecoder().decode(content), fileName); break;
+    default: tables = readSpreadsheet(content, fileName, format === 'csv');
+  }
+  return tables.filter(table => table.rows.length > 0);
+};
@@ -1,170 +1,227 @@
-import * as XLSX from 'xlsx';
-import { DatabaseSchema, SchemaEntity, DataPoint } from '../types';
+import { DatabaseSchema, SchemaEntity, DataPoint, LocalData, FileParseProgress, ODataExpandItem, ODataQueryClauses } from '../types';
+import { parseODataQuery } from './odataQuery';
+import { compileFilter } from './filterEvaluator';
+import { applyTransformations, sortRows, LOCAL_APPLY_TRANSFORMATIONS } from './applyEvaluator';
+import { inferColumns } from './typeInference';
+import { readTables } from './fileFormats';
+import { flattenRow } from './odataService';
 
 /**
- * Parses an Excel or CSV file and returns the raw data and inferred schema.
+ * Turns a sheet or table name into an entity set name that can appear in a query path:
+ * letters, digits and underscores, not starting with a digit, unique within the file.
  */
-export const parseFile = async (file: File): Promise<{ data: DataPoint[], schema: DatabaseSchema }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        
-        // Assume first sheet is the main data
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
-        
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json<DataPoint>(sheet);
-        
-        if (jsonData.length === 0) {
-          reject(new Error("הקובץ ריק או לא תקין"));
-          return;
-        }
-
-        // Infer Schema from the first few rows
-        const fields = Object.keys(jsonData[0]).map(key => {
-            // Simple type inference
-            const val = jsonData[0][key];
-            let type = 'Edm.String';
-            if (typeof val === 'number') type = 'Edm.Double';
-            if (val instanceof Date) type = 'Edm.DateTimeOffset';
-            if (typeof val === 'boolean') type = 'Edm.Boolean';
-            
-            return { name: key, type };
-        });
-
-        // Create a schema that mimics OData structure
-        // We treat the file as a single EntitySet named "Sheet1" (or sanitized filename)
-        const entityName = "Data"; 
-        
-        const schema: DatabaseSchema = {
-            entities: [{
-                name: entityName,
-                fields: fields
-            }]
-        };
-
-        resolve({ data: jsonData, schema });
-      } catch (err) {
-        reject(err);
-      }
-    };
+const toEntityName = (name: string, taken: Set<string>): string => {
+  let base = name.trim().replace(/[^\p{L}\p{N}_]+/gu, '_').replace(/^_+|_+$/g, '') || 'Sheet';
+  if (/^\p{N}/u.test(base)) base = `_${base}`;
+  let candidate = base;
+  for (let i = 2; taken.has(candidate.toLowerCase()); i++) candidate = `${base}_${i}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Parses the content of an uploaded file (Excel, CSV, JSON, NDJSON or Parquet, see fileFormats) into one
+ * entity per table: per non-empty sheet, or per flattened record array. Column types are inferred from
+ * a sample of the rows (see typeInference) and the values converted to them. Returns the rows by entity
+ * and the inferred schema. CPU heavy: runs in a parse worker started per upload (see localParseWorker).
+ */
+export const parseFileContent = async (
+  content: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: FileParseProgress) => void
+): Promise<{ data: LocalData, schema: DatabaseSchema }> => {
+  onProgress?.({ stage: 'parsing', percent: 0 });
+  const tables = await readTables(content, fileName);
+  if (tables.length === 0) throw new Error("הקובץ ריק או לא תקין");
 
-    reader.onerror = (err) => reject(err);
-    reader.readAsBinaryString(file);
+  const data: LocalData = {};
+  const entities: SchemaEntity[] = [];
+  const taken = new Set<string>();
+  // Entity of each table, for the tables exploded from its arrays (which follow it)
+  const entityOf = new Map<string, string>();
+  tables.forEach((table, i) => {
+    onProgress?.({ stage: 'typing', percent: Math.round(100 * i / tables.length) });
+    const { fields, rows } = inferColumns(table.rows);
+    const name = toEntityName(table.name, taken);
+    entityOf.set(table.name, name);
+    const parent = table.parent && entityOf.get(table.parent.table);
+    data[name] = rows;
+    // executeLocalQuery evaluates $apply, so the AI may aggregate like against a capable service
+    entities.push({
+      name,
+      fields,
+      applySupported: true,
+      label: name !== table.name ? table.name : undefined,
+      parentLink: table.parent && parent ? { entity: parent, column: table.parent.column, parentColumn: table.parent.parentColumn } : undefined
+    });
   });
+
+  const schema: DatabaseSchema = {
+    entities,
+    capabilities: { applySupported: true, applyTransformations: LOCAL_APPLY_TRANSFORMATIONS }
+  };
+  return { data, schema };
 };
 
 /**
- * Executes a "Mock" OData query against local JSON data.
- * Supports basic $filter, $orderby, $top, $select.
- * DOES NOT support complex $apply/groupby (user receives raw data).
+ * How a navigation property of a local entity is followed: to the target rows whose targetColumn equals
+ * the row's column. Built by the local data worker from the file relationships (see localRelationships).
  */
-export const executeLocalQuery = (data: DataPoint[], odataQuery: string): DataPoint[] => {
-  let result = [...data];
-  
-  // 1. Parse Query Parameters
-  const params = new URLSearchParams(odataQuery.split('?')[1]);
-  
-  // 2. Filter ($filter)
-  const filter = params.get('$filter');
-  if (filter) {
-    // Very basic parser for: Field eq 'Value' / Field gt 100
-    // Warning: insecure eval-like behavior, suitable for local demo only.
-    result = result.filter(row => {
-        try {
-            // Replace OData operators with JS operators
-            let jsCondition = filter
-                .replace(/ eq /g, ' == ')
-                .replace(/ ne /g, ' != ')
-                .replace(/ gt /g, ' > ')
-                .replace(/ lt /g, ' < ')
-                .replace(/ ge /g, ' >= ')
-                .replace(/ le /g, ' <= ')
-                .replace(/ and /g, ' && ')
-                .replace(/ or /g, ' || ');
-            
-            // Handle string quotes - ensure they match keys in row
-            // Simple approach: Iterate keys and replace "Key" with "row['Key']" in the string
-            // This is fragile but works for simple demos.
-            Object.keys(row).forEach(key => {
-                // Regex to find the key not surrounded by quotes
-                const regex = new RegExp(`\\b${key}\\b`, 'g');
-                // Check if key is actually in the filter string
-                if (jsCondition.match(regex)) {
-                     // Check if value is string and needs quotes? 
-                     // Usually OData passes strings as 'value'.
-                     // We just replace Key with row.Key access
-                     // We need to be careful not to replace inside string literals.
-                     
-                     // Safer simple hack:
-                     const val = row[key];
-                     const valStr = typeof val === 'string' ? `'${val}'` : val;
-                     jsCondition = jsCondition.replace(new RegExp(`\\b${key}\\b`, 'g'), String(valStr));
-                }
-            });
-
-            // If the condition still contains field names that weren't replaced (maybe nulls), 
-            // this eval might fail. 
-            // Improved strategy: Use Function constructor with 'row' scope? 
-            // Let's rely on a simpler manual check for single condition if complex fail.
-            
-            // fallback for single condition: "Region eq 'North'"
-            const parts = filter.split(' ');
-            if (parts.length === 3) {
-                const [key, op, valRaw] = parts;
-                const val = valRaw.replace(/'/g, ""); // remove quotes
-                const rowVal = row[key];
-                
-                if (op === 'eq') return String(rowVal) == val;
-                if (op === 'ne') return String(rowVal) != val;
-                if (op === 'gt') return Number(rowVal) > Number(val);
-                if (op === 'lt') return Number(rowVal) < Number(val);
-            }
-            
-            return true; // Default keep if complex
-        } catch (e) {
-            return true; 
-        }
-    });
+export interface LocalNavigation {
+  name: string;
+  many: boolean; // Collection-valued, i.e. seen from the "one" side of the relationship
+  column: string;
+  targetColumn: string;
+  targetRows: () => DataPoint[];
+  targetNavigations: () => LocalNavigation[];
+}
+
+// Key values are compared as text, so 7 in one file matches "7" in another
+const keyOf = (value: any): string | undefined => value === null || value === undefined || value === '' ? undefined : String(value);
+
+const indexRows = (rows: DataPoint[], column: string): Map<string, DataPoint[]> => {
+  const index = new Map<string, DataPoint[]>();
+  rows.forEach(row => {
+    const key = keyOf(row[column]);
+    if (key === undefined) return;
+    if (!index.has(key)) index.set(key, []);
+    index.get(key)!.push(row);
+  });
+  return index;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// True when an expression of the query steps through the path, e.g. "Customer/Country eq 'IL'" for "Customer/"
+const mentionsPath = (text: string, path: string) => new RegExp(`(^|[^\\w$./])${escapeRegExp(path)}`).test(text);
+
+// "Orders/Items" (v2 style) is the same as "Orders($expand=Items)"
+const nestExpand = (items: ODataExpandItem[]): ODataExpandItem[] => items.map(item => {
+  const [head, ...rest] = item.property.split('/');
+  if (!rest.length) return item;
+  return { property: head, expand: nestExpand([{ ...item, property: rest.join('/') }]) };
+});
+
+/**
+ * Adds the navigation properties the query expands or steps through to copies of the rows: the matching
+ * target row (or null) for single-valued ones, the array of matching rows for collections. Expanded
+ * collections get their item's $filter, $orderby, $skip, $top and $select; nested expands recurse.
+ */
+const attachNavigations = (rows: DataPoint[], navigations: LocalNavigation[], expand: ODataExpandItem[], text: string, prefix: string): DataPoint[] => {
+  const items = new Map<string, ODataExpandItem | undefined>();
+  nestExpand(expand).forEach(item => {
+    if (!navigations.some(nav => nav.name === item.property)) throw new Error(`מאפיין הניווט ${item.property} לא מוגדר בקשרי הקבצים`);
+    items.set(item.property, item);
+  });
+  navigations.forEach(nav => {
+    if (!items.has(nav.name) && mentionsPath(text, `${prefix}${nav.name}/`)) items.set(nav.name, undefined);
+  });
+  if (items.size === 0) return rows;
+
+  const lookups = navigations.filter(nav => items.has(nav.name)).map(nav => {
+    const item = items.get(nav.name);
+    const targets = attachNavigations(nav.targetRows(), nav.targetNavigations(), item?.expand || [], text, `${prefix}${nav.name}/`);
+    const index = indexRows(targets, nav.targetColumn);
+    return {
+      nav,
+      lookup: (row: DataPoint) => {
+        const key = keyOf(row[nav.column]);
+        const matches = key === undefined ? [] : index.get(key) || [];
+        if (!nav.many) return matches[0] ? (item ? applyClauses(matches, { select: item.select })[0] : matches[0]) : null;
+        return item ? applyClauses(matches, item) : matches;
+      }
+    };
+  });
+  return rows.map(row => ({ ...row, ...Object.fromEntries(lookups.map(({ nav, lookup }) => [nav.name, lookup(row)])) }));
+};
+
+// Projects a row on $select paths. Expanded navigation properties are kept, as on a service;
+// "Customer/Name" selects inside an expanded entity or, after $apply, the dotted column "Customer.Name".
+const selectFields = (row: DataPoint, select: string[], expanded: string[]): DataPoint => {
+  const result: DataPoint = {};
+  select.forEach(path => {
+    const [head, ...rest] = path.split('/');
+    const value = row[head];
+    if (!rest.length) {
+      if (value !== undefined) result[head] = value;
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      result[head] = { ...result[head], ...selectFields(value, [rest.join('/')], []) };
+    } else {
+      const dotted = path.replace(/\//g, '.');
+      if (row[dotted] !== undefined) result[dotted] = row[dotted];
+    }
+  });
+  expanded.forEach(name => {
+    if (!(name in result) && row[name] !== undefined) result[name] = row[name];
+  });
+  return result;
+};
+
+// $filter, $orderby, $skip, $top and $select, in the order a service evaluates them
+const applyClauses = (rows: DataPoint[], clauses: ODataQueryClauses): DataPoint[] => {
+  let result = rows;
+
+  // Filter ($filter): parsed into an expression tree and evaluated per row
+  if (clauses.filter) {
+    result = result.filter(compileFilter(clauses.filter));
   }
 
-  // 3. Sort ($orderby)
-  const orderby = params.get('$orderby');
-  if (orderby) {
-      const parts = orderby.split(' ');
-      const key = parts[0];
-      const dir = parts[1] === 'desc' ? -1 : 1;
-      
-      result.sort((a, b) => {
-          if (a[key] < b[key]) return -1 * dir;
-          if (a[key] > b[key]) return 1 * dir;
-          return 0;
-      });
+  // Sort ($orderby)
+  if (clauses.orderby?.length) {
+    result = sortRows(result, clauses.orderby);
   }
 
-  // 4. Select ($select) - Project fields
-  const select = params.get('$select');
-  if (select) {
-      const keys = select.split(',').map(s => s.trim());
-      result = result.map(row => {
-          const newRow: any = {};
-          keys.forEach(k => {
-              if (row[k] !== undefined) newRow[k] = row[k];
-          });
-          return newRow;
-      });
+  // Paging ($skip, $top)
+  if (clauses.skip) {
+    result = result.slice(clauses.skip);
+  }
+  if (clauses.top !== undefined) {
+    result = result.slice(0, clauses.top);
   }
 
-  // 5. Top ($top)
-  const top = params.get('$top');
-  if (top) {
-      result = result.slice(0, Number(top));
+  // Select ($select) - Project fields
+  const keys = clauses.select?.filter(key => key !== '*');
+  if (keys?.length) {
+    const expanded = nestExpand(clauses.expand || []).map(item => item.property);
+    result = result.map(row => selectFields(row, keys, expanded));
   }
 
   return result;
-};
\ No newline at end of file
+};
+
+/**
+ * Executes an OData query against the rows of one entity of a local file, in the order a service evaluates the options:
+ * navigation lookups, $apply (see applyEvaluator), $filter (see filterEvaluator), $orderby, $skip, $top, $select.
+ * Navigation properties come from the file relationships; expanded entities are returned flattened to dotted
+ * columns like service results. Syntax errors and unsupported constructs throw instead of returning unfiltered rows.
+ */
+export const executeLocalQuery = (data: LocalData, odataQuery: string, navigations: LocalNavigation[] = []): DataPoint[] => {
+  const query = parseODataQuery(odataQuery);
+  const rows = data[query.entitySet];
+  if (!rows) throw new Error(`הישות ${query.entitySet} לא נמצאה בקובץ`);
+  // Every step below returns a new array, so the stored rows are never copied or modified
+
+  // 1. Related rows ($expand, or paths such as Customer/Country in the other options)
+  const expanded = nestExpand(query.expand || []).map(item => item.property);
+  let result = attachNavigations(rows, navigations, query.expand || [], odataQuery, '');
+
+  // 2. Transformations ($apply): groupby, aggregate, filter, compute...
+  if (query.apply) {
+    result = applyTransformations(result, query.apply);
+  }
+
+  // 3. $filter, $orderby, $skip, $top, $select
+  result = applyClauses(result, query);
+
+  // Lookups that were only needed to evaluate the query are dropped
+  const lookedUp = navigations.filter(nav => !expanded.includes(nav.name) && result.some(row => nav.name in row));
+  if (lookedUp.length) {
+    result = result.map(row => {
+      const copy = { ...row };
+      lookedUp.forEach(nav => delete copy[nav.name]);
+      return copy;
+    });
+  }
+
+  return expanded.length ? result.map(flattenRow) : result;
+};
@@ -0,0 +1,310 @@
+import { DataPoint, ODataFilterExpression } from '../types';
+
+/**
+ * Thrown when a $filter or $apply is valid OData but uses something the local engine can't compute
+ * (e.g. geo functions, cast/isof, $root, custom aggregates). Rows are never kept silently in that case.
+ */
+export class UnsupportedQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedQueryError';
+  }
+}
+
+type Scope = Record<string, any>;
+
+const isNull = (value: any) => value === null || value === undefined;
+
+const DATE_TYPES = ['Edm.DateTimeOffset', 'Edm.DateTime', 'Edm.Date'];
+// Date and time parts of an ISO 8601 string, read as written (no time zone conversion)
+const ISO_PARTS = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?/;
+
+// Canonical functions and the number of arguments each accepts
+const FUNCTION_ARITY: Record<string, [number, number]> = {
+  contains: [2, 2], startswith: [2, 2], endswith: [2, 2], substringof: [2, 2],
+  length: [1, 1], indexof: [2, 2], substring: [2, 3], tolower: [1, 1], toupper: [1, 1],
+  trim: [1, 1], concat: [2, 2], matchespattern: [2, 2],
+  year: [1, 1], month: [1, 1], day: [1, 1], hour: [1, 1], minute: [1, 1], second: [1, 1],
+  fractionalseconds: [1, 1], date: [1, 1], time: [1, 1], now: [0, 0], maxdatetime: [0, 0], mindatetime: [0, 0],
+  round: [1, 1], floor: [1, 1], ceiling: [1, 1]
+};
+
+/**
+ * Throws UnsupportedQueryError for the first construct the evaluator can't handle,
+ * so a bad filter fails up front instead of on the first row that reaches it.
+ */
+const checkSupported = (expression: ODataFilterExpression): void => {
+  switch (expression.kind) {
+    case 'function': {
+      const arity = FUNCTION_ARITY[expression.name.toLowerCase()];
+      if (!arity) throw new UnsupportedQueryError(`Function "${expression.name}" is not supported in local filters`);
+      if (expression.args.length < arity[0] || expression.args.length > arity[1]) {
+        throw new UnsupportedQueryError(`Function "${expression.name}" expects ${arity[0] === arity[1] ? arity[0] : `${arity[0]}-${arity[1]}`} arguments, got ${expression.args.length}`);
+      }
+      expression.args.forEach(checkSupported);
+      break;
+    }
+    case 'property':
+      if (expression.path.startsWith('$root')) throw new UnsupportedQueryError('$root is not supported in local filters');
+      break;
+    case 'binary':
+      checkSupported(expression.left);
+      checkSupported(expression.right);
+      break;
+    case 'not':
+    case 'negate':
+      checkSupported(expression.operand);
+      break;
+    case 'list':
+      expression.items.forEach(checkSupported);
+      break;
+    case 'lambda':
+      if (expression.predicate) checkSupported(expression.predicate);
+      break;
+  }
+};
+
+const literalValue = (literal: Extract<ODataFilterExpression, { kind: 'literal' }>): any => {
+  if (literal.type && DATE_TYPES.includes(literal.type) && typeof literal.value === 'string') {
+    // v2 datetime literals carry no offset and are read as UTC, like their JSON values
+    const text = literal.type === 'Edm.DateTime' && !/(Z|[+-]\d{2}:\d{2})$/.test(literal.value) ? `${literal.value}Z` : literal.value;
+    return new Date(text);
+  }
+  return literal.value;
+};
+
+const has = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Reads a property path from a row. Rows from expanded or complex fields may be flattened
+ * ("Customer.Country") or nested ({ Customer: { Country } }); both are tried.
+ */
+const readPath = (path: string, row: DataPoint, scope: Scope): any => {
+  const segments = path.split('/');
+  let current: any = row;
+  if (segments[0] === '$it') {
+    segments.shift();
+  } else if (has(scope, segments[0])) {
+    current = scope[segments.shift()!];
+  } else if (segments.length > 1 && has(row, segments.join('.'))) {
+    return row[segments.join('.')];
+  }
+
+  for (const segment of segments) {
+    if (isNull(current)) return null;
+    if (segment === '$count') {
+      if (!Array.isArray(current)) throw new UnsupportedQueryError(`"${path}" is not a collection`);
+      return current.length;
+    }
+    current = has(current, segment) ? current[segment] : undefined;
+  }
+  return current === undefined ? null : current;
+};
+
+const toTime = (value: any): number => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return Date.parse(String(value));
+};
+
+// Both sides in one comparable form: dates as epoch ms, numeric text as numbers when the other side is a number
+const normalizePair = (left: any, right: any): [any, any] => {
+  if (left instanceof Date || right instanceof Date) return [toTime(left), toTime(right)];
+  if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '' && !isNaN(Number(right))) return [left, Number(right)];
+  if (typeof right === 'number' && typeof left === 'string' && left.trim() !== '' && !isNaN(Number(left))) return [Number(left), right];
+  if (typeof left === 'boolean' && typeof right === 'boolean') return [Number(left), Number(right)];
+  return [left, right];
+};
+
+const equals = (left: any, right: any): boolean => {
+  if (isNull(left) || isNull(right)) return isNull(left) && isNull(right);
+  const [a, b] = normalizePair(left, right);
+  return a === b;
+};
+
+// null compared with anything (other than by eq/ne) is null, which filters the row out
+const compare = (operator: string, left: any, right: any): boolean | null => {
+  if (isNull(left) || isNull(right)) return null;
+  const [a, b] = normalizePair(left, right);
+  if (typeof a !== typeof b) return null;
+  switch (operator) {
+    case 'gt': return a > b;
+    case 'ge': return a >= b;
+    case 'lt': return a < b;
+    default: return a <= b;
+  }
+};
+
+const arithmetic = (operator: string, left: any, right: any): number | null => {
+  if (isNull(left) || isNull(right)) return null;
+  if (left instanceof Date || right instanceof Date) throw new UnsupportedQueryError('Date arithmetic is not supported in local filters');
+  const a = Number(left);
+  const b = Number(right);
+  if (isNaN(a) || isNaN(b)) throw new UnsupportedQueryError(`"${operator}" needs numeric operands, got "${left}" and "${right}"`);
+  switch (operator) {
+    case 'add': return a + b;
+    case 'sub': return a - b;
+    case 'mul': return a * b;
+    // div truncates when both operands are integers; divby always divides exactly
+    case 'div': return b === 0 ? null : Number.isInteger(a) && Number.isInteger(b) ? Math.trunc(a / b) : a / b;
+    case 'divby': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+};
+
+// Three-valued logic: null (unknown) only decides the result when the other side doesn't
+const logical = (operator: 'and' | 'or', left: boolean | null, right: () => boolean | null): boolean | null => {
+  if (operator === 'and' && left === false) return false;
+  if (operator === 'or' && left === true) return true;
+  const r = right();
+  if (operator === 'and') return r === false ? false : left === true && r === true ? true : null;
+  return r === true ? true : left === false && r === false ? false : null;
+};
+
+const asBoolean = (value: any): boolean | null => (isNull(value) ? null : value === true);
+
+const dateParts = (value: any): number[] => {
+  if (value instanceof Date) {
+    return [value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate(), value.getUTCHours(), value.getUTCMinutes(), value.getUTCSeconds(), value.getUTCMilliseconds() / 1000];
+  }
+  const match = String(value).match(ISO_PARTS);
+  if (!match) throw new UnsupportedQueryError(`"${value}" is not a date`);
+  return [1, 2, 3, 4, 5, 6].map(i => Number(match[i] || 0)).concat(Number(match[7] || 0));
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const callFunction = (name: string, args: any[]): any => {
+  const fn = name.toLowerCase();
+  if (fn === 'now') return new Date();
+  if (fn === 'maxdatetime') return new Date('9999-12-31T23:59:59.999Z');
+  if (fn === 'mindatetime') return new Date('0001-01-01T00:00:00Z');
+  // Canonical functions return null when an argument is null
+  if (args.some(isNull)) return null;
+
+  const [first, second, third] = args;
+  switch (fn) {
+    case 'contains': return String(first).includes(String(second));
+    case 'substringof': return String(second).includes(String(first));
+    case 'startswith': return String(first).startsWith(String(second));
+    case 'endswith': return String(first).endsWith(String(second));
+    case 'length': return String(first).length;
+    case 'indexof': return String(first).indexOf(String(second));
+    case 'substring': return third === undefined ? String(first).substring(second) : String(first).substring(second, second + third);
+    case 'tolower': return String(first).toLowerCase();
+    case 'toupper': return String(first).toUpperCase();
+    case 'trim': return String(first).trim();
+    case 'concat': return String(first) + String(second);
+    case 'matchespattern': return new RegExp(String(second)).test(String(first));
+    case 'round': return Math.round(Number(first));
+    case 'floor': return Math.floor(Number(first));
+    case 'ceiling': return Math.ceil(Number(first));
+  }
+
+  const parts = dateParts(first);
+  switch (fn) {
+    case 'year': return parts[0];
+    case 'month': return parts[1];
+    case 'day': return parts[2];
+    case 'hour': return parts[3];
+    case 'minute': return parts[4];
+    case 'second': return parts[5];
+    case 'fractionalseconds': return parts[6];
+    case 'date': return `${parts[0]}-${pad(parts[1])}-${pad(parts[2])}`;
+    default: return `${pad(parts[3])}:${pad(parts[4])}:${pad(parts[5])}`;
+  }
+};
+
+const evaluate = (expression: ODataFilterExpression, row: DataPoint, scope: Scope): any => {
+  switch (expression.kind) {
+    case 'literal':
+      return literalValue(expression);
+    case 'property':
+      return readPath(expression.path, row, scope);
+    case 'not': {
+      const operand = asBoolean(evaluate(expression.operand, row, scope));
+      return operand === null ? null : !operand;
+    }
+    case 'negate': {
+      const operand = evaluate(expression.operand, row, scope);
+      return isNull(operand) ? null : -Number(operand);
+    }
+    case 'list':
+      return expression.items.map(item => evaluate(item, row, scope));
+    case 'function':
+      return callFunction(expression.name, expression.args.map(arg => evaluate(arg, row, scope)));
+    case 'lambda': {
+      const collection = readPath(expression.path, row, scope);
+      if (isNull(collection)) return expression.operator === 'all';
+      if (!Array.isArray(collection)) throw new UnsupportedQueryError(`"${expression.path}" is not a collection`);
+      if (!expression.variable || !expression.predicate) return expression.operator === 'all' || collection.length > 0;
+      const test = (item: any) => asBoolean(evaluate(expression.predicate!, row, { ...scope, [expression.variable!]: item })) === true;
+      return expression.operator === 'any' ? collection.some(test) : collection.every(test);
+    }
+    case 'binary': {
+      const { operator } = expression;
+      if (operator === 'and' || operator === 'or') {
+        return logical(operator, asBoolean(evaluate(expression.left, row, scope)), () => asBoolean(evaluate(expression.right, row, scope)));
+      }
+      const left = evaluate(expression.left, row, scope);
+      if (operator === 'in') {
+        // The parser always gives "in" a list on its right
+        const { right: list } = expression;
+        return list.kind === 'list' && list.items.some(item => equals(left, evaluate(item, row, scope)));
+      }
+      const right = evaluate(expression.right, row, scope);
+      switch (operator) {
+        case 'eq': return equals(left, right);
+        case 'ne': return !equals(left, right);
+        case 'gt':
+        case 'ge':
+        case 'lt':
+        case 'le':
+          return compare(operator, left, right);
+        case 'has': {
+          // Flag enums are held as comma-separated member names
+          if (isNull(left) || isNull(right)) return null;
+          const members = String(left).split(',').map(m => m.trim());
+          return String(right).split(',').every(flag => members.includes(flag.trim()));
+        }
+        default:
+          return arithmetic(operator, left, right);
+      }
+    }
+  }
+};
+
+/**
+ * Whether a row matches a parsed $filter. Rows for which the filter is null (unknown) don't match.
+ * Throws UnsupportedQueryError for constructs the local evaluator doesn't implement.
+ */
+export const evaluateFilter = (expression: ODataFilterExpression, row: DataPoint): boolean =>
+  asBoolean(evaluate(expression, row, {})) === true;
+
+/**
+ * Checks a parsed $filter once and returns a row predicate for Array.filter.
+ */
+export const compileFilter = (expression: ODataFilterExpression): ((row: DataPoint) => boolean) => {
+  checkSupported(expression);
+  return row => evaluateFilter(expression, row);
+};
+
+/**
+ * Checks a value expression (a property path, arithmetic, a function call) once and returns
+ * a function computing it for a row, as used by $apply aggregate, groupby and compute.
+ */
+export const compileExpression = (expression: ODataFilterExpression): ((row: DataPoint) => any) => {
+  checkSupported(expression);
+  return row => evaluate(expression, row, {});
+};
+
+/**
+ * Sort order of two values: nulls first, then dates, numbers and text by value.
+ */
+export const compareValues = (left: any, right: any): number => {
+  if (isNull(left) || isNull(right)) return isNull(left) ? (isNull(right) ? 0 : -1) : 1;
+  const [a, b] = normalizePair(left, right);
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a !== typeof b) return String(a).localeCompare(String(b));
+  return a < b ? -1 : a > b ? 1 : 0;
+};
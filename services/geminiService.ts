@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { DashboardWidgetConfig, ChartType, DatabaseSchema, DataPoint, AnalysisResult } from '../types';
+import { DashboardWidgetConfig, ChartType, ConnectionKind, DataConnection, DatabaseSchema, DataPoint, AnalysisResult, ODataQuery, SchemaEntity, SchemaNavigationProperty } from '../types';
+import { parseODataQuery, validateODataQuery, widgetQueryUpdate } from './odataQuery';
 
 const getAiClient = () => {
   const apiKey = process.env.API_KEY;
@@ -38,8 +39,150 @@ const safeGenerateContent = async (params: any, modelId: string) => {
     }
 };
 
-// Helper to ensure OData Query is valid URL path
-const fixODataQuery = (config: any): any => {
+// Navigation paths reachable from an entity, up to two hops (e.g. "Customer", "Order_Details/Product")
+const MAX_EXPAND_PATHS = 20;
+const buildExpandPaths = (schema: DatabaseSchema, entity: SchemaEntity): string[] => {
+  const targetOf = (nav: SchemaNavigationProperty) =>
+    schema.entities.find(e => e.name === nav.targetEntitySet) || schema.entities.find(e => e.entityType === nav.targetType);
+
+  const paths: string[] = [];
+  (entity.navigationProperties || []).forEach(nav => {
+    paths.push(nav.name);
+    const target = targetOf(nav);
+    (target?.navigationProperties || []).forEach(inner => {
+      // Skip the way back to where we came from
+      if (inner.targetType !== entity.entityType) paths.push(`${nav.name}/${inner.name}`);
+    });
+  });
+  return paths.slice(0, MAX_EXPAND_PATHS);
+};
+
+const hasNavigation = (schema: DatabaseSchema): boolean =>
+  schema.entities.some(e => (e.navigationProperties?.length ?? 0) > 0);
+
+// Compact schema description for prompts: keys, relationships, enums and complex types
+// are kept, optional noise (default nullability, empty lists) is dropped to save tokens.
+const buildSchemaContext = (schema: DatabaseSchema): string => {
+  const context: any = {
+    entities: schema.entities.map(entity => {
+      const e: any = {
+        name: entity.name,
+        fields: entity.fields.map(f => {
+          const field: any = { name: f.name, type: f.type };
+          if (f.label) field.label = f.label;
+          if (f.nullable === false) field.required = true;
+          if (f.description) field.description = f.description;
+          if (f.currency || f.currencyProperty) field.currency = f.currency || `from field ${f.currencyProperty}`;
+          if (f.unit || f.unitProperty) field.unit = f.unit || `from field ${f.unitProperty}`;
+          return field;
+        })
+      };
+      if (entity.label) e.label = entity.label;
+      if (entity.keys?.length) e.keys = entity.keys;
+      if (entity.applySupported) e.applySupported = true;
+      if (entity.navigationProperties?.length) {
+        e.relationships = entity.navigationProperties.map(nav => ({
+          name: nav.name,
+          target: nav.targetEntitySet || nav.targetType,
+          cardinality: nav.cardinality
+        }));
+        e.expandPaths = buildExpandPaths(schema, entity);
+      }
+      return e;
+    })
+  };
+  if (schema.enumTypes?.length) {
+    context.enumTypes = schema.enumTypes.map(en => ({ name: en.name, members: en.members.map(m => m.name) }));
+  }
+  // Actions change data, so only functions are offered to the model
+  const functions = (schema.operations || []).filter(op => op.kind === 'function');
+  if (functions.length) {
+    context.functions = functions.map(op => {
+      const f: any = { name: op.name };
+      if (op.label) f.label = op.label;
+      if (op.boundTo) {
+        const itemType = op.boundTo.replace(/^Collection\((.*)\)$/, '$1');
+        f.boundTo = schema.entities.find(e => e.entityType === itemType)?.name || op.boundTo;
+      }
+      f.parameters = op.parameters.map(p => p.nullable === false ? { name: p.name, type: p.type, required: true } : { name: p.name, type: p.type });
+      if (op.returnType) f.returns = op.returnType;
+      return f;
+    });
+  }
+  if (schema.complexTypes?.length) {
+    context.complexTypes = schema.complexTypes.map(ct => ({
+      name: ct.name,
+      fields: ct.fields.map(f => f.label ? { name: f.name, type: f.type, label: f.label } : { name: f.name, type: f.type })
+    }));
+  }
+  return JSON.stringify(context);
+};
+
+// Business names from the metadata annotations, for titles that read like the organisation talks
+const LABEL_RULES = `
+         - Entities and fields may carry a "label" (their business name) and a "currency" or "unit". Base Hebrew titles and descriptions on the labels rather than the technical names, and mention the currency or unit where relevant.`;
+
+// Query syntax differences the model must respect when the service speaks OData v2
+const V2_QUERY_RULES = `
+         - This service speaks OData v2. Use v2 query syntax only:
+         - Use $inlinecount=allpages instead of $count=true.
+         - Use substringof('text',Field) instead of contains(Field,'text').
+         - Date literals are written as datetime'2024-01-01T00:00:00'.
+         - Do NOT use $apply, $compute, $search or lambda operators (any/all).`;
+
+// Related-entity fields via $expand; results come back flattened to dotted keys
+const buildExpandRules = (schema: DatabaseSchema): string => {
+  if (!hasNavigation(schema)) return '';
+  const example = schema.odataVersion === '2.0'
+    ? '"/Orders?$select=OrderID,Freight,Customer/CompanyName&$expand=Customer"'
+    : '"/Orders?$select=OrderID,Freight&$expand=Customer($select=CompanyName)"';
+  return `
+         - To use fields of a related entity, $expand one of the entity's "expandPaths" and select only the needed fields: ${example}.
+         - Expanded fields are returned as dotted keys: use "Customer.CompanyName" (not "Customer/CompanyName") as xAxisKey or dataKey.`;
+};
+
+// Reporting logic exposed as functions (function imports or functions bound to an entity set)
+const buildFunctionRules = (schema: DatabaseSchema): string => {
+  if (!schema.operations?.some(op => op.kind === 'function')) return '';
+  const examples = schema.odataVersion === '2.0'
+    ? '"/TopCustomers?year=2024&$top=10"'
+    : '"/TopCustomers(year=2024)?$top=10", or for a function with "boundTo": "/Customers/NS.TopByRevenue(year=2024)"';
+  return `
+         - When one of the "functions" answers the request better than querying an entity set, call it: ${examples}.
+         - Pass every required parameter as a literal of its type. Set 'entity' to the function name (or to the "boundTo" entity set).
+         - xAxisKey and dataKey are properties of the function's return type; a function returning numbers gives the key "value".`;
+};
+
+// Raw-fetch strategy: the service can't aggregate, so WidgetCard sums the rows client-side
+const RAW_FETCH_RULES = `
+         - CRITICAL: Do NOT use $apply, aggregate, or groupby. Most OData services do not support them and return 400 Bad Request.
+         - INSTEAD: Fetch the raw data using $select, $filter, $orderby.
+         - LIMIT: Always use $top to limit results (e.g., $top=100) to prevent performance issues.
+         - The Frontend will handle the aggregation (sum/count/average) of the raw data.
+         - Example: To show "Sales by Country", query "/Orders?$select=ShipCountry,Freight&$top=100". Do NOT group by ShipCountry in the query.
+         - Example: For KPI "Total Sales", query "/Orders?$select=Freight&$top=500". The frontend will sum it.`;
+
+// Pushdown strategy for services that advertise Org.OData.Aggregation.V1.ApplySupported
+const buildApplyRules = (schema: DatabaseSchema): string => {
+  const transformations = schema.capabilities?.applyTransformations || [];
+  return `
+         - Aggregation IS supported for entities marked "applySupported": true. For those, aggregate on the server with $apply instead of fetching raw rows.
+         - Group + aggregate: "/Orders?$apply=groupby((ShipCountry),aggregate(Freight with sum as TotalFreight))" -> xAxisKey "ShipCountry", dataKey "TotalFreight".
+         - KPI: "/Orders?$apply=aggregate(Freight with sum as TotalFreight)" -> dataKey "TotalFreight".
+         - Counting rows: "aggregate($count as OrderCount)". Aggregation methods: sum, average, min, max, countdistinct.
+         - Filter before grouping: "$apply=filter(ShipCountry eq 'Germany')/groupby((ShipCity),aggregate(Freight with sum as TotalFreight))".
+         - Always alias aggregated values with "as" and use the alias as dataKey.${transformations.length ? `
+         - Only these transformations are supported: ${transformations.join(', ')}.` : ''}
+         - For entities WITHOUT "applySupported", do NOT use $apply: fetch raw rows with $select/$filter and $top=500 and the frontend will aggregate them.`;
+};
+
+// $apply pushdown is only offered when the service advertises it (never for v2)
+const supportsAggregation = (schema: DatabaseSchema): boolean =>
+  schema.odataVersion !== '2.0' && (!!schema.capabilities?.applySupported || schema.entities.some(e => e.applySupported));
+
+// Helper to ensure OData Query is valid URL path, then parse it into the query model,
+// check it against the schema and re-serialize it in the service's protocol version
+const fixODataQuery = (config: any, schema: DatabaseSchema): any => {
   if (config.sqlQuery) return config; // Skip for SQL
 
   let query = config.odataQuery?.trim() || "";
@@ -50,47 +193,76 @@ const fixODataQuery = (config: any): any => {
   // Case 1: Query starts with $ or ? (e.g. $apply=... or ?filter=...)
   // We need to prepend /Entity? (or /Entity if ? is present)
   if (query.startsWith('$')) {
-    config.odataQuery = `/${entity}?${query}`;
-    return config;
-  }
-  if (query.startsWith('?')) {
-    config.odataQuery = `/${entity}${query}`;
-    return config;
+    query = `/${entity}?${query}`;
+  } else if (query.startsWith('?')) {
+    query = `/${entity}${query}`;
+  } else if (!query.startsWith('/')) {
+    // Case 2: Query starts with the Entity Name but missing leading slash
+    // e.g. "Orders?$select..."
+    // Case 3: Random string that doesn't look like a path, assume it's parameters
+    query = query.toLowerCase().startsWith(entity.toLowerCase()) ? `/${query}` : `/${entity}?${query}`;
   }
 
-  // Case 2: Query starts with the Entity Name but missing leading slash
-  // e.g. "Orders?$select..."
-  if (!query.startsWith('/')) {
-     if (query.toLowerCase().startsWith(entity.toLowerCase())) {
-         config.odataQuery = `/${query}`;
-     } else {
-         // Case 3: Random string that doesn't look like a path, assume it's parameters
-         config.odataQuery = `/${entity}?${query}`;
-     }
+  // The model sometimes gets the casing of the entity set or function import wrong
+  const head = query.match(/^\/([^/(?]*)/)?.[1] || '';
+  const knownName = [...schema.entities.map(e => e.name), ...(schema.operations || []).filter(op => !op.boundTo).map(op => op.name)]
+    .find(name => name.toLowerCase() === head.toLowerCase());
+  if (knownName) query = `/${knownName}${query.substring(head.length + 1)}`;
+
+  let model: ODataQuery;
+  try {
+    model = parseODataQuery(query, schema);
+  } catch (e: any) {
+    throw new Error(`השאילתה שנוצרה אינה תקינה (${e.message}): ${query}`);
   }
 
-  // Case 4: Query is just "/Orders" (no params), ensure it's valid
-  if (query === `/${entity}`) {
-      return config;
+  const problems = validateODataQuery(model, schema);
+  if (problems.length > 0) {
+    throw new Error(`השאילתה שנוצרה אינה תואמת את הסכמה: ${problems.join(', ')}`);
   }
-  
-  return config;
+
+  return { ...config, ...widgetQueryUpdate(model, schema.odataVersion) };
 };
 
-export const generateDashboardConfig = async (
-  userPrompt: string, 
-  schema: DatabaseSchema,
-  mode: 'odata' | 'file' | 'sql' | 'timbr' = 'odata'
-): Promise<DashboardWidgetConfig> => {
-  const schemaContext = JSON.stringify(schema);
-  
-  let systemInstruction = '';
+// Role given to the model when the dashboard has a single source
+const GENERATE_ROLES: Record<ConnectionKind, string> = {
+  sql: `
+      You are an expert BigQuery SQL analyst.
+      Translate the user's Hebrew request into a GoogleSQL (Standard SQL) query.`,
+  timbr: `
+      You are an expert Semantic SQL Analyst using Timbr.ai.
+      Your goal is to query a Knowledge Graph (Ontology).`,
+  odata: `
+      You are an expert OData analyst.
+      Your goal is to translate a user's natural language request (in Hebrew) into a configuration object for a dashboard widget.`,
+  file: `
+      You are an expert OData analyst.
+      Your goal is to translate a user's natural language request (in Hebrew) into a configuration object for a dashboard widget.`
+};
+
+// How each source kind is named in the multi-source prompts
+const SOURCE_KIND_NAMES: Record<ConnectionKind, string> = {
+  odata: 'OData service',
+  file: 'uploaded file, queried with OData syntax or SQLite SQL',
+  sql: 'BigQuery, queried with GoogleSQL',
+  timbr: 'Timbr Knowledge Graph, queried with Semantic SQL'
+};
+
+// Uploaded files are also loaded into SQLite (see localSql), for what OData can't express
+const FILE_SQL_RULES = `
+      5. Alternatively, when the request needs joins between entities of this file, window functions, CASE or date arithmetic, write a SQLite SELECT in 'sqlQuery' and leave 'odataQuery' empty:
+         - Each entity of this file is a table of the same name. Quote column names that contain spaces or dots: "Address.City".
+         - The query can only use this file's tables. Fields of another uploaded file are reached with an OData query that $expand-s a relationship to it.
+         - Dates are ISO 8601 text (use strftime('%Y-%m', OrderDate) and the like); booleans are 0 and 1.
+         - Alias every computed column and use the alias as xAxisKey or dataKey. Use LIMIT 100 for lists.
+         - Set 'entity' to the main table.`;
+
+// Schema and query rules of one source in the generate prompt
+const buildGenerateRules = (schema: DatabaseSchema, mode: ConnectionKind): string => {
+  const schemaContext = buildSchemaContext(schema);
 
   if (mode === 'sql') {
-    systemInstruction = `
-      You are an expert BigQuery SQL analyst.
-      Translate the user's Hebrew request into a GoogleSQL (Standard SQL) query.
-      
+    return `
       Schema: ${schemaContext}
 
       Rules:
@@ -100,11 +272,9 @@ export const generateDashboardConfig = async (
       4. Group by relevant columns if using aggregations.
       5. Identify the main table name as 'entity'.
     `;
-  } else if (mode === 'timbr') {
-    systemInstruction = `
-      You are an expert Semantic SQL Analyst using Timbr.ai.
-      Your goal is to query a Knowledge Graph (Ontology).
-      
+  }
+  if (mode === 'timbr') {
+    return `
       Schema (Concepts & Relationships): ${schemaContext}
       
       Rules:
@@ -117,29 +287,69 @@ export const generateDashboardConfig = async (
       5. Identify the main Concept name as 'entity'.
       6. Translate the user request from Hebrew.
     `;
-  } else {
-    // OData Mode
-    systemInstruction = `
-      You are an expert OData analyst.
-      Your goal is to translate a user's natural language request (in Hebrew) into a configuration object for a dashboard widget.
-      
-      Current OData Schema (Entities and Fields):
+  }
+
+  // OData Mode
+  const version = schema.odataVersion ?? '4.0';
+  return `
+      Current OData Schema (Entities, Fields, Keys, Relationships, Enum and Complex Types, Functions):
       ${schemaContext}
       
       Rules:
-      1. Create a VALID OData v4 query string. 
-         - CRITICAL: Do NOT use $apply, aggregate, or groupby. Most OData services do not support them and return 400 Bad Request.
-         - INSTEAD: Fetch the raw data using $select, $filter, $orderby.
-         - LIMIT: Always use $top to limit results (e.g., $top=100) to prevent performance issues.
-         - The Frontend will handle the aggregation (sum/count/average) of the raw data.
-         - Example: To show "Sales by Country", query "/Orders?$select=ShipCountry,Freight&$top=100". Do NOT group by ShipCountry in the query.
-         - Example: For KPI "Total Sales", query "/Orders?$select=Freight&$top=500". The frontend will sum it.
+      1. Create a VALID OData v${version.charAt(0)} query string. ${version === '2.0' ? V2_QUERY_RULES : ''}${supportsAggregation(schema) ? buildApplyRules(schema) : RAW_FETCH_RULES}
          - CRITICAL: The 'odataQuery' MUST start with the Entity Set name. Example: "/Orders?..."
+         - Fields typed with a Complex Type are addressed by path in the query, e.g. "Address/City", and come back as the key "Address.City".${buildExpandRules(schema)}${buildFunctionRules(schema)}
+         - Fields typed with an Enum Type are compared using the qualified member literal, e.g. "Status eq NS.OrderStatus'Shipped'".
+         - Prefer key fields for counting distinct records.${LABEL_RULES}
       2. Determine the best chart type.
       3. Identify 'entity' (the main EntitySet name being queried, e.g., Orders).
-      4. Return JSON.
+      4. Return JSON.${mode === 'file' ? FILE_SQL_RULES : ''}
     `;
-  }
+};
+
+// Uploaded files linked by a relationship are the one exception to "one source per widget"
+const hasFileLinks = (connections: DataConnection[]): boolean =>
+  connections.some(c => c.kind === 'file' && c.schema.entities.some(e => e.navigationProperties?.some(nav => !nav.targetEntitySet)));
+
+const FILE_LINK_RULES = `
+      Uploaded files may be linked: a relationship whose target is written "<source id>/<entity>" leads to that entity of another uploaded file.
+      Such a relationship is $expand-ed like any other, so one widget on the first file can use the linked file's fields (see that file's schema).`;
+
+// One block per source, each with its own schema and query language
+const buildSourceBlocks = (connections: DataConnection[]): string =>
+  connections.map(c => `
+      ===== Source id "${c.id}": ${c.label} (${SOURCE_KIND_NAMES[c.kind]}) =====${buildGenerateRules(c.schema, c.kind)}`).join('');
+
+// Extra response property naming the source a widget queries, only asked for when there is a choice
+const connectionIdProperty = (connections: DataConnection[]) => ({
+  type: Type.STRING,
+  enum: connections.map(c => c.id),
+  description: "Id of the source the widget queries"
+});
+
+// Binds a generated widget to its source and fixes its query against that source's schema
+const bindToConnection = (result: any, connections: DataConnection[]): any => {
+  const connection = connections.find(c => c.id === result.connectionId) || connections[0];
+  const fixed = connection.kind === 'odata' || connection.kind === 'file' ? fixODataQuery(result, connection.schema) : result;
+  return { ...fixed, connectionId: connection.id };
+};
+
+export const generateDashboardConfig = async (
+  userPrompt: string, 
+  connections: DataConnection[]
+): Promise<DashboardWidgetConfig> => {
+  if (connections.length === 0) throw new Error("אין מקור נתונים מחובר");
+  const multiSource = connections.length > 1;
+
+  const systemInstruction = multiSource
+    ? `
+      You are an expert data analyst for a dashboard that combines several data sources.
+      Translate the user's request (in Hebrew) into a configuration object for ONE dashboard widget.
+      The widget queries exactly ONE of the sources below: pick the one whose data answers the request and set 'connectionId' to its id.
+      Data cannot be joined across sources. Follow the schema and rules of the chosen source only.${hasFileLinks(connections) ? FILE_LINK_RULES : ''}
+      ${buildSourceBlocks(connections)}
+    `
+    : GENERATE_ROLES[connections[0].kind] + buildGenerateRules(connections[0].schema, connections[0].kind);
 
   try {
     const response = await safeGenerateContent({
@@ -155,23 +365,20 @@ export const generateDashboardConfig = async (
             description: { type: Type.STRING, description: "Short description in Hebrew" },
             chartType: { type: Type.STRING, enum: [ChartType.BAR, ChartType.LINE, ChartType.PIE, ChartType.AREA, ChartType.KPICARD] },
             odataQuery: { type: Type.STRING, description: "For OData: Full path starting with /EntityName. For SQL/Timbr: Leave empty." },
-            sqlQuery: { type: Type.STRING, description: "For SQL/Timbr Mode: The SELECT query. For OData: Leave empty." },
+            sqlQuery: { type: Type.STRING, description: "For SQL/Timbr Mode, or an uploaded file queried with SQLite: The SELECT query. For OData: Leave empty." },
             xAxisKey: { type: Type.STRING, description: "JSON key for X Axis" },
             dataKey: { type: Type.STRING, description: "JSON key for Y Axis" },
-            entity: { type: Type.STRING, description: "The EntitySet/Table/Concept name" }
+            entity: { type: Type.STRING, description: "The EntitySet/Table/Concept name" },
+            ...(multiSource ? { connectionId: connectionIdProperty(connections) } : {})
           },
-          required: ["title", "description", "chartType", "xAxisKey", "dataKey", "entity"],
+          required: ["title", "description", "chartType", "xAxisKey", "dataKey", "entity", ...(multiSource ? ["connectionId"] : [])],
         }
       }
     }, MODEL_FLASH);
 
     if (!response.text) throw new Error("No response from AI");
-    let result = JSON.parse(response.text);
-    
-    // Apply fix to ensure valid URL only for OData
-    if (mode === 'odata' || mode === 'file') {
-        result = fixODataQuery(result);
-    }
+    // OData and file queries are checked against the schema of the chosen source
+    const result = bindToConnection(JSON.parse(response.text), connections);
 
     return {
       id: crypto.randomUUID(),
@@ -186,22 +393,19 @@ export const generateDashboardConfig = async (
   }
 };
 
-export const suggestDashboards = async (
-    schema: DatabaseSchema, 
-    mode: 'odata' | 'file' | 'sql' | 'timbr' = 'odata'
-): Promise<DashboardWidgetConfig[]> => {
-  const schemaContext = JSON.stringify(schema);
+// Suggestion prompt when the dashboard has a single source
+const buildSuggestPrompt = (schema: DatabaseSchema, mode: ConnectionKind): string => {
+  const schemaContext = buildSchemaContext(schema);
 
-  let prompt = '';
-  
   if (mode === 'sql') {
-    prompt = `
+    return `
       Based on the schema, generate 4 dashboard widgets using BigQuery SQL.
       Requirements: 2 KPIs, 2 Charts. Use 'sqlQuery' field. Hebrew titles.
       Schema: ${schemaContext}
     `;
-  } else if (mode === 'timbr') {
-    prompt = `
+  }
+  if (mode === 'timbr') {
+    return `
       Based on the Knowledge Graph Schema, generate 4 dashboard widgets using Timbr Semantic SQL.
       Requirements:
       1. Leverage graph relationships (e.g. concept.relationship.property).
@@ -210,16 +414,36 @@ export const suggestDashboards = async (
       4. Hebrew titles.
       Schema: ${schemaContext}
     `;
-  } else {
-    prompt = `
+  }
+  return `
       Based on the provided OData Schema, generate a comprehensive dashboard structure with 4 distinct widgets.
       Requirements:
       1. Exactly 2 'kpi', 2 'chart' widgets.
-      2. Do NOT use $apply or aggregate. Query RAW data.
-      3. Use Hebrew for titles.
+      2. ${supportsAggregation(schema)
+           ? 'Use $apply groupby/aggregate for entities marked "applySupported", raw data with $top for the rest.'
+           : 'Do NOT use $apply or aggregate. Query RAW data.'}
+      3. Use Hebrew for titles.${LABEL_RULES}
+      4. Use OData v${(schema.odataVersion ?? '4.0').charAt(0)} query syntax.${schema.odataVersion === '2.0' ? V2_QUERY_RULES : ''}${buildExpandRules(schema)}${buildFunctionRules(schema)}
       Schema: ${schemaContext}
     `;
-  }
+};
+
+export const suggestDashboards = async (
+    connections: DataConnection[]
+): Promise<DashboardWidgetConfig[]> => {
+  if (connections.length === 0) throw new Error("אין מקור נתונים מחובר");
+  const multiSource = connections.length > 1;
+
+  const prompt = multiSource
+    ? `
+      Based on the data sources below, generate a comprehensive dashboard structure with 4 distinct widgets.
+      Requirements:
+      1. Exactly 2 'kpi', 2 'chart' widgets, with Hebrew titles.
+      2. Spread the widgets across the sources so the dashboard covers them together.
+      3. Each widget queries exactly ONE source: set its 'connectionId' to that source's id and follow that source's schema and rules only.${hasFileLinks(connections) ? FILE_LINK_RULES : ''}
+      ${buildSourceBlocks(connections)}
+    `
+    : buildSuggestPrompt(connections[0].schema, connections[0].kind);
 
   try {
     // Use Flash for suggestions
@@ -243,9 +467,10 @@ export const suggestDashboards = async (
                   sqlQuery: { type: Type.STRING, description: "For SQL/Timbr" },
                   xAxisKey: { type: Type.STRING },
                   dataKey: { type: Type.STRING },
-                  entity: { type: Type.STRING }
+                  entity: { type: Type.STRING },
+                  ...(multiSource ? { connectionId: connectionIdProperty(connections) } : {})
                 },
-                required: ["title", "description", "chartType", "xAxisKey", "dataKey", "entity"]
+                required: ["title", "description", "chartType", "xAxisKey", "dataKey", "entity", ...(multiSource ? ["connectionId"] : [])]
               }
             }
           }
@@ -256,17 +481,26 @@ export const suggestDashboards = async (
     if (!response.text) throw new Error("No response");
     const result = JSON.parse(response.text);
     
-    return result.suggestions.map((s: any) => {
-      let final = s;
-      if (mode === 'odata' || mode === 'file') {
-          final = fixODataQuery(s);
+    const widgets: DashboardWidgetConfig[] = [];
+    let lastError: Error | null = null;
+    result.suggestions.forEach((s: any) => {
+      // Drop suggestions whose query doesn't fit the schema instead of failing the whole dashboard
+      let final;
+      try {
+          final = bindToConnection(s, connections);
+      } catch (e: any) {
+          console.warn(`Skipping suggestion "${s.title}"`, e);
+          lastError = e;
+          return;
       }
-      return {
+      widgets.push({
         id: crypto.randomUUID(),
         ...final,
         alerts: []
-      };
+      });
     });
+    if (widgets.length === 0 && lastError) throw lastError;
+    return widgets;
   } catch (error: any) {
     if (error.message === "QUOTA_EXCEEDED") {
       throw new Error("מכסת השימוש ב-AI הגיעה לקצה (שגיאה 429). אנא נסה שוב בעוד דקה.");
@@ -281,7 +515,7 @@ export const suggestDashboards = async (
 export const generateAdvancedInsights = async (schema: DatabaseSchema, dataSample: DataPoint[], sourceEntity: string): Promise<AnalysisResult> => {
   
   // Prepare context
-  const schemaStr = JSON.stringify(schema);
+  const schemaStr = buildSchemaContext(schema);
   const dataStr = JSON.stringify(dataSample.slice(0, 50)); // Limit to 50 rows to save tokens
 
   const prompt = `
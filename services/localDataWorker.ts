@@ -0,0 +1,223 @@
+import { DataPoint, DatabaseSchema, PrepStep, PreparedData } from '../types';
+import { ColumnarTable, fromColumnar, toColumnar, transferables } from './columnarTable';
+import type { Database } from 'sql.js';
+import { applyRecipe } from './dataPrep';
+import { LocalNavigation, executeLocalQuery } from './fileService';
+import { openSqlDatabase, runSql } from './localSql';
+import { parseODataQuery } from './odataQuery';
+
+// Entity of a file held by this worker
+export interface StoreEntityRef {
+  datasetId: string;
+  entity: string;
+}
+
+// A navigation property of a stored entity, resolved from the file relationships by localRelationships
+export interface StoreNavigation extends StoreEntityRef {
+  name: string;
+  many: boolean;
+  column: string;
+  target: StoreEntityRef & { column: string };
+}
+
+// Candidate relationship to measure: how many `from` values are found in `to`, which must be unique
+export interface StoreLinkCandidate {
+  from: StoreEntityRef & { column: string };
+  to: StoreEntityRef & { column: string };
+}
+
+// Messages between localDataset (main thread) and this worker, which holds every uploaded file
+export type StoreRequest =
+  | { type: 'load'; datasetId: string; tables: Record<string, ColumnarTable> }
+  | { type: 'unload'; datasetId: string }
+  | { type: 'navigations'; navigations: StoreNavigation[] }
+  | { type: 'query'; id: number; datasetId: string; odataQuery: string }
+  | { type: 'sql'; id: number; datasetId: string; sql: string }
+  | { type: 'measure'; id: number; candidates: StoreLinkCandidate[] }
+  | { type: 'prepare'; id: number; datasetId: string; steps: PrepStep[]; schema: DatabaseSchema }
+  | { type: 'cancel'; id: number }; // Drops a job that hasn't started yet
+
+export type StoreResponse =
+  | { type: 'result'; id: number; table: ColumnarTable }
+  // Share of the `from` values found in `to`, or null when `to` isn't unique
+  | { type: 'measured'; id: number; matches: (number | null)[] }
+  | ({ type: 'prepared'; id: number } & PreparedData)
+  | { type: 'error'; id: number; name: string; message: string };
+
+// The worker global, typed by hand: the project compiles against the DOM lib, which clashes with the webworker one
+const scope = self as unknown as {
+  postMessage: (message: StoreResponse, transfer: Transferable[]) => void;
+  onmessage: ((e: MessageEvent<StoreRequest>) => void) | null;
+};
+
+// Entities by dataset, stored by column
+const datasets = new Map<string, Record<string, ColumnarTable>>();
+// Entities as uploaded, kept while a preparation recipe is applied so it can be changed and replayed
+const originals = new Map<string, Record<string, ColumnarTable>>();
+let navigations: StoreNavigation[] = [];
+
+// Rows of the entities used last; dashboards mostly query a few, so those aren't rebuilt for every query
+const ROW_CACHE_SIZE = 4;
+const rowCache = new Map<string, DataPoint[]>();
+
+// SQLite copies of the files, built on their first SQL query and dropped whenever the rows change
+const sqlDatabases = new Map<string, Promise<Database>>();
+
+// Jobs wait here for their turn, so a cancel posted meanwhile can still remove them
+let queue: { id: number; run: () => void | Promise<void> }[] = [];
+let draining = false;
+
+const post = (message: StoreResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+const postError = (id: number, error: any) =>
+  post({ type: 'error', id, name: error?.name || 'Error', message: error?.message || String(error) });
+
+const entityRows = ({ datasetId, entity }: StoreEntityRef): DataPoint[] | undefined => {
+  const table = datasets.get(datasetId)?.[entity];
+  if (!table) return undefined;
+  const key = `${datasetId}/${entity}`;
+  let rows = rowCache.get(key);
+  if (rows) {
+    rowCache.delete(key);
+  } else {
+    rows = fromColumnar(table);
+    if (rowCache.size >= ROW_CACHE_SIZE) rowCache.delete(rowCache.keys().next().value!);
+  }
+  // Re-inserted so the least recently used entry is the first key
+  rowCache.set(key, rows);
+  return rows;
+};
+
+const clearCache = (datasetId: string) => {
+  Array.from(rowCache.keys()).filter(key => key.startsWith(`${datasetId}/`)).forEach(key => rowCache.delete(key));
+  sqlDatabases.get(datasetId)?.then(db => db.close(), () => {});
+  sqlDatabases.delete(datasetId);
+};
+
+// Navigation properties of an entity, each following its target lazily
+const navigationsOf = (ref: StoreEntityRef): LocalNavigation[] =>
+  navigations
+    .filter(nav => nav.datasetId === ref.datasetId && nav.entity === ref.entity)
+    .map(nav => ({
+      name: nav.name,
+      many: nav.many,
+      column: nav.column,
+      targetColumn: nav.target.column,
+      targetRows: () => entityRows(nav.target) || [],
+      targetNavigations: () => navigationsOf(nav.target)
+    }));
+
+const runQuery = (id: number, datasetId: string, odataQuery: string) => {
+  const { entitySet } = parseODataQuery(odataQuery);
+  const ref = { datasetId, entity: entitySet };
+  const rows = entityRows(ref);
+  // An unknown entity is reported by executeLocalQuery
+  const result = executeLocalQuery(rows ? { [entitySet]: rows } : {}, odataQuery, navigationsOf(ref));
+  const table = toColumnar(result);
+  post({ type: 'result', id, table }, transferables(table));
+};
+
+// One database per uploaded file: a query sees that file's tables only, as the generate prompt tells the model
+const runSqlQuery = async (id: number, datasetId: string, sql: string) => {
+  const tables = datasets.get(datasetId);
+  if (!tables) throw new Error('הקובץ הוסר');
+  if (!sqlDatabases.has(datasetId)) {
+    const opening = openSqlDatabase(tables);
+    sqlDatabases.set(datasetId, opening);
+    // A failed load (e.g. the engine couldn't be fetched) is retried by the next query
+    opening.catch(() => { if (sqlDatabases.get(datasetId) === opening) sqlDatabases.delete(datasetId); });
+  }
+  const db = await sqlDatabases.get(datasetId)!;
+  const table = toColumnar(runSql(db, sql));
+  post({ type: 'result', id, table }, transferables(table));
+};
+
+const columnValues = (ref: StoreEntityRef, column: string): string[] =>
+  (entityRows(ref) || []).map(row => row[column]).filter(v => v !== null && v !== undefined && v !== '').map(String);
+
+const measure = (id: number, candidates: StoreLinkCandidate[]) => {
+  const matches = candidates.map(({ from, to }) => {
+    const targets = columnValues(to, to.column);
+    const unique = new Set(targets);
+    if (unique.size === 0 || unique.size !== targets.length) return null;
+    const values = columnValues(from, from.column);
+    return values.length ? values.filter(v => unique.has(v)).length / values.length : 0;
+  });
+  post({ type: 'measured', id, matches });
+};
+
+const prepare = (id: number, datasetId: string, steps: PrepStep[], schema: DatabaseSchema) => {
+  const uploaded = originals.get(datasetId) || datasets.get(datasetId);
+  if (!uploaded) throw new Error('הקובץ הוסר');
+  clearCache(datasetId);
+  if (steps.length === 0) {
+    originals.delete(datasetId);
+    datasets.set(datasetId, uploaded);
+    const rowCounts = Object.fromEntries(Object.entries(uploaded).map(([entity, table]) => [entity, table.rowCount]));
+    post({ type: 'prepared', id, schema, rowCounts, problems: [] });
+    return;
+  }
+  const rows = Object.fromEntries(Object.entries(uploaded).map(([entity, table]) => [entity, fromColumnar(table)]));
+  const prepared = applyRecipe(rows, schema, steps);
+  originals.set(datasetId, uploaded);
+  datasets.set(datasetId, Object.fromEntries(Object.entries(prepared.data).map(([entity, entityRows]) => [entity, toColumnar(entityRows)])));
+  const rowCounts = Object.fromEntries(Object.entries(prepared.data).map(([entity, entityRows]) => [entity, entityRows.length]));
+  post({ type: 'prepared', id, schema: prepared.schema, rowCounts, problems: prepared.problems });
+};
+
+// One job per task, so cancel messages are handled between jobs
+const drain = async () => {
+  const next = queue.shift();
+  if (!next) {
+    draining = false;
+    return;
+  }
+  try {
+    await next.run();
+  } catch (err) {
+    postError(next.id, err);
+  }
+  setTimeout(drain, 0);
+};
+
+const enqueue = (id: number, run: () => void | Promise<void>) => {
+  queue.push({ id, run });
+  if (!draining) {
+    draining = true;
+    setTimeout(drain, 0);
+  }
+};
+
+scope.onmessage = (e: MessageEvent<StoreRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'load':
+      clearCache(request.datasetId);
+      originals.delete(request.datasetId);
+      datasets.set(request.datasetId, request.tables);
+      break;
+    case 'unload':
+      clearCache(request.datasetId);
+      originals.delete(request.datasetId);
+      datasets.delete(request.datasetId);
+      break;
+    case 'navigations':
+      navigations = request.navigations;
+      break;
+    case 'query':
+      enqueue(request.id, () => runQuery(request.id, request.datasetId, request.odataQuery));
+      break;
+    case 'sql':
+      enqueue(request.id, () => runSqlQuery(request.id, request.datasetId, request.sql));
+      break;
+    case 'measure':
+      enqueue(request.id, () => measure(request.id, request.candidates));
+      break;
+    case 'prepare':
+      enqueue(request.id, () => prepare(request.id, request.datasetId, request.steps, request.schema));
+      break;
+    case 'cancel':
+      queue = queue.filter(item => item.id !== request.id);
+      break;
+  }
+};
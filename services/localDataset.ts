@@ -0,0 +1,148 @@
+import { DatabaseSchema, FileParseProgress, LocalDataset } from '../types';
+import { fromColumnar, transferables } from './columnarTable';
+import { throwIfAborted } from './requestControl';
+import type { ParseRequest, ParseResponse } from './localParseWorker';
+import type { StoreLinkCandidate, StoreNavigation, StoreRequest, StoreResponse } from './localDataWorker';
+
+export interface ParseFileOptions {
+  onProgress?: (progress: FileParseProgress) => void;
+  // Aborting stops the parse worker mid-parse
+  signal?: AbortSignal;
+}
+
+const abortReason = (signal?: AbortSignal) => signal?.reason ?? new DOMException('Aborted', 'AbortError');
+
+// Errors cross the worker boundary as name + message; the name keeps e.g. UnsupportedQueryError recognizable
+const toError = (message: { name: string; message: string }): Error =>
+  Object.assign(new Error(message.message), { name: message.name });
+
+// --- Local data worker: one for all uploaded files, so relationships can join across them ---
+
+let store: Worker | null = null;
+const pending = new Map<number, { resolve: (message: StoreResponse) => void; reject: (error: any) => void }>();
+let nextId = 1;
+let nextDatasetId = 1;
+
+const storeWorker = (): Worker => {
+  if (store) return store;
+  store = new Worker(new URL('./localDataWorker.ts', import.meta.url), { type: 'module' });
+  store.onmessage = (e: MessageEvent<StoreResponse>) => {
+    const message = e.data;
+    const entry = pending.get(message.id);
+    if (!entry) return;
+    pending.delete(message.id);
+    if (message.type === 'error') entry.reject(toError(message));
+    else entry.resolve(message);
+  };
+  store.onerror = (e) => {
+    pending.forEach(p => p.reject(new Error(e.message || 'שגיאה בעיבוד הקובץ')));
+    pending.clear();
+  };
+  return store;
+};
+
+const send = (request: StoreRequest, transfer: Transferable[] = []) => storeWorker().postMessage(request, transfer);
+
+/**
+ * Posts a job to the local data worker. Aborting drops the job if it hasn't started and ignores its result if it has.
+ */
+const request = (make: (id: number) => StoreRequest, signal?: AbortSignal): Promise<StoreResponse> =>
+  new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const id = nextId++;
+    const onAbort = () => {
+      pending.delete(id);
+      send({ type: 'cancel', id });
+      reject(abortReason(signal));
+    };
+    pending.set(id, {
+      resolve: message => { signal?.removeEventListener('abort', onAbort); resolve(message); },
+      reject: error => { signal?.removeEventListener('abort', onAbort); reject(error); }
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    send(make(id));
+  });
+
+const createLocalDataset = (id: string, rowCounts: Record<string, number>): LocalDataset => {
+  let disposed = false;
+  const dataset: LocalDataset = {
+    id,
+    rowCounts,
+    query: async (odataQuery, options = {}) => {
+      if (disposed) throw new Error('הקובץ הוסר');
+      const message = await request(requestId => ({ type: 'query', id: requestId, datasetId: id, odataQuery }), options.signal);
+      return message.type === 'result' ? fromColumnar(message.table) : [];
+    },
+    sql: async (sql, options = {}) => {
+      if (disposed) throw new Error('הקובץ הוסר');
+      const message = await request(requestId => ({ type: 'sql', id: requestId, datasetId: id, sql }), options.signal);
+      return message.type === 'result' ? fromColumnar(message.table) : [];
+    },
+    prepare: async (steps, schema) => {
+      if (disposed) throw new Error('הקובץ הוסר');
+      const message = await request(requestId => ({ type: 'prepare', id: requestId, datasetId: id, steps, schema }));
+      if (message.type !== 'prepared') throw new Error('שגיאה בהכנת הנתונים');
+      dataset.rowCounts = message.rowCounts;
+      return { schema: message.schema, rowCounts: message.rowCounts, problems: message.problems };
+    },
+    dispose: () => {
+      if (disposed) return;
+      disposed = true;
+      send({ type: 'unload', datasetId: id });
+    }
+  };
+  return dataset;
+};
+
+/**
+ * Replaces the navigation properties the local data worker follows (see localRelationships).
+ */
+export const setStoreNavigations = (navigations: StoreNavigation[]) => send({ type: 'navigations', navigations });
+
+/**
+ * For each candidate, the share of its `from` values found in `to`, or null when `to` values aren't unique.
+ */
+export const measureLinks = async (candidates: StoreLinkCandidate[]): Promise<(number | null)[]> => {
+  if (candidates.length === 0) return [];
+  const message = await request(id => ({ type: 'measure', id, candidates }));
+  return message.type === 'measured' ? message.matches : [];
+};
+
+/**
+ * Reads, parses and types an uploaded file in a Web Worker of its own (see fileService.parseFileContent),
+ * then moves the columnar tables to the local data worker, which keeps them and answers the dashboard's
+ * queries, so large files never block the UI. Aborting the signal terminates the parse and rejects with the abort reason.
+ */
+export const parseFile = (file: File, options: ParseFileOptions = {}): Promise<{ dataset: LocalDataset; schema: DatabaseSchema }> =>
+  new Promise((resolve, reject) => {
+    const { signal, onProgress } = options;
+    throwIfAborted(signal);
+    const worker = new Worker(new URL('./localParseWorker.ts', import.meta.url), { type: 'module' });
+
+    const settle = (fn: () => void) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      fn();
+    };
+    const onAbort = () => settle(() => reject(abortReason(signal)));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<ParseResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'parsed') {
+        settle(() => {
+          const id = `dataset-${nextDatasetId++}`;
+          const rowCounts = Object.fromEntries(Object.entries(message.tables).map(([entity, table]) => [entity, table.rowCount]));
+          send({ type: 'load', datasetId: id, tables: message.tables }, Object.values(message.tables).flatMap(transferables));
+          resolve({ dataset: createLocalDataset(id, rowCounts), schema: message.schema });
+        });
+      } else {
+        settle(() => reject(toError(message)));
+      }
+    };
+    worker.onerror = (e) => settle(() => reject(new Error(e.message || 'שגיאה בעיבוד הקובץ')));
+
+    worker.postMessage({ type: 'parse', file } satisfies ParseRequest);
+  });
@@ -0,0 +1,43 @@
+import { DatabaseSchema, FileParseProgress } from '../types';
+import { ColumnarTable, toColumnar, transferables } from './columnarTable';
+import { parseFileContent } from './fileService';
+
+// Messages between localDataset (main thread) and this worker, started for one upload and terminated
+// once the file is parsed or the upload is cancelled. The tables then move to the local data worker.
+export type ParseRequest = { type: 'parse'; file: File };
+
+export type ParseResponse =
+  | { type: 'progress'; progress: FileParseProgress }
+  | { type: 'parsed'; schema: DatabaseSchema; tables: Record<string, ColumnarTable> }
+  | { type: 'error'; name: string; message: string };
+
+// The worker global, typed by hand: the project compiles against the DOM lib, which clashes with the webworker one
+const scope = self as unknown as {
+  postMessage: (message: ParseResponse, transfer: Transferable[]) => void;
+  onmessage: ((e: MessageEvent<ParseRequest>) => void) | null;
+};
+
+const post = (message: ParseResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+const readFile = (file: File): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) post({ type: 'progress', progress: { stage: 'reading', percent: Math.round(100 * e.loaded / e.total) } });
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+scope.onmessage = async (e: MessageEvent<ParseRequest>) => {
+  try {
+    const { file } = e.data;
+    const content = await readFile(file);
+    const { data, schema } = await parseFileContent(content, file.name, progress => post({ type: 'progress', progress }));
+    const tables = Object.fromEntries(Object.entries(data).map(([entity, rows]) => [entity, toColumnar(rows)]));
+    post({ type: 'parsed', schema, tables }, Object.values(tables).flatMap(transferables));
+  } catch (err: any) {
+    post({ type: 'error', name: err?.name || 'Error', message: err?.message || String(err) });
+  }
+};
@@ -0,0 +1,166 @@
+import { DataConnection, LocalColumnRef, LocalRelationship, SchemaNavigationProperty } from '../types';
+import { measureLinks } from './localDataset';
+import type { StoreLinkCandidate, StoreNavigation } from './localDataWorker';
+
+// Share of the "many" side's values that must exist on the "one" side for a suggestion
+const MIN_SUGGESTION_MATCH = 0.9;
+
+// Column names that look like keys: "CustomerID", "customer_id", "OrderKey", "id", "קוד לקוח" (but not "Paid")
+const KEY_COLUMN = /(ID|Id|Key|Code)$|(^|[_\s.-])(id|key|code)$|מזהה|קוד/;
+
+// Navigation properties of uploaded files resolved to both ends
+interface ResolvedNavigation {
+  owner: LocalColumnRef;
+  name: string;
+  many: boolean;
+  target: LocalColumnRef;
+}
+
+const entityKey = (ref: { connectionId: string; entity: string }) => `${ref.connectionId}/${ref.entity}`;
+
+// Also used as the entity type of file entities, so navigation targets can be told apart across files
+const typeName = entityKey;
+
+export const relationshipKey = (r: LocalRelationship) =>
+  `${entityKey(r.from)}.${r.from.column}->${entityKey(r.to)}.${r.to.column}`;
+
+// True when both link the same two columns, in either direction
+const linksSameColumns = (a: LocalRelationship, b: LocalRelationship) =>
+  relationshipKey(a) === relationshipKey(b) || relationshipKey(a) === relationshipKey({ from: b.to, to: b.from });
+
+const fileEntity = (connections: DataConnection[], ref: LocalColumnRef) =>
+  connections.find(c => c.id === ref.connectionId && c.kind === 'file')?.schema.entities.find(e => e.name === ref.entity);
+
+const hasColumn = (connections: DataConnection[], ref: LocalColumnRef) =>
+  !!fileEntity(connections, ref)?.fields.some(f => f.name === ref.column);
+
+/**
+ * Navigation properties of both ends of every relationship whose columns exist: the "many" side gets one
+ * named after the target entity ("Orders" -> "Customers"), the "one" side a collection back. Names that
+ * clash with a field or an earlier navigation property get the column appended, then a number.
+ */
+const resolveNavigations = (connections: DataConnection[], relationships: LocalRelationship[]): ResolvedNavigation[] => {
+  const taken = new Map<string, Set<string>>();
+  const nameFor = (ref: LocalColumnRef, base: string): string => {
+    const key = entityKey(ref);
+    if (!taken.has(key)) taken.set(key, new Set(fileEntity(connections, ref)?.fields.map(f => f.name.toLowerCase())));
+    const names = taken.get(key)!;
+    let name = names.has(base.toLowerCase()) ? `${base}_${ref.column}` : base;
+    for (let i = 2; names.has(name.toLowerCase()); i++) name = `${base}_${ref.column}_${i}`;
+    names.add(name.toLowerCase());
+    return name;
+  };
+
+  return relationships
+    .filter(r => hasColumn(connections, r.from) && hasColumn(connections, r.to))
+    .flatMap(r => [
+      { owner: r.from, name: nameFor(r.from, r.to.entity), many: false, target: r.to },
+      { owner: r.to, name: nameFor(r.to, r.from.entity), many: true, target: r.from }
+    ]);
+};
+
+/**
+ * File connections with the relationships as navigation properties of their entities, so they reach the
+ * prompts, the explorer and $expand like a service's. Targets in another file are named by type only
+ * ("file:customers.csv/customers"); other connections are returned unchanged.
+ */
+export const applyRelationships = (connections: DataConnection[], relationships: LocalRelationship[]): DataConnection[] => {
+  const navigations = resolveNavigations(connections, relationships);
+  return connections.map(connection => {
+    if (connection.kind !== 'file') return connection;
+    const entities = connection.schema.entities.map(entity => {
+      const own = navigations.filter(nav => nav.owner.connectionId === connection.id && nav.owner.entity === entity.name);
+      const navigationProperties: SchemaNavigationProperty[] = own.map(nav => ({
+        name: nav.name,
+        targetType: typeName(nav.target),
+        targetEntitySet: nav.target.connectionId === connection.id ? nav.target.entity : undefined,
+        cardinality: nav.many ? 'many' : 'zeroOrOne'
+      }));
+      return {
+        ...entity,
+        entityType: typeName({ connectionId: connection.id, entity: entity.name }),
+        navigationProperties: navigationProperties.length ? navigationProperties : undefined
+      };
+    });
+    return { ...connection, schema: { ...connection.schema, entities } };
+  });
+};
+
+/**
+ * The navigation properties in the form the local data worker follows them (by dataset instead of connection).
+ */
+export const storeNavigations = (connections: DataConnection[], relationships: LocalRelationship[]): StoreNavigation[] => {
+  const datasetOf = (ref: LocalColumnRef) => connections.find(c => c.id === ref.connectionId)?.dataset?.id;
+  return resolveNavigations(connections, relationships).flatMap(nav => {
+    const datasetId = datasetOf(nav.owner);
+    const targetDatasetId = datasetOf(nav.target);
+    if (!datasetId || !targetDatasetId) return [];
+    return [{
+      datasetId,
+      entity: nav.owner.entity,
+      name: nav.name,
+      many: nav.many,
+      column: nav.owner.column,
+      target: { datasetId: targetDatasetId, entity: nav.target.entity, column: nav.target.column }
+    }];
+  });
+};
+
+/**
+ * Pairs of columns that may link two entities of the uploaded files, by name only:
+ * the same key-like column on both ("CustomerID"), "<singular entity>_id" against that entity's "id",
+ * and the rows that fileFormats exploded from a nested array against their parent (see SchemaEntity.parentLink).
+ */
+const relationshipCandidates = (connections: DataConnection[]): LocalRelationship[] => {
+  const entities = connections.filter(c => c.kind === 'file').flatMap(c =>
+    c.schema.entities.map(e => ({ connectionId: c.id, entity: e.name, columns: e.fields.map(f => f.name), parentLink: e.parentLink })));
+  const candidates: LocalRelationship[] = [];
+
+  entities.forEach(from => entities.forEach(to => {
+    if (from === to) return;
+    const link = (fromColumn: string, toColumn: string) => candidates.push({
+      from: { connectionId: from.connectionId, entity: from.entity, column: fromColumn },
+      to: { connectionId: to.connectionId, entity: to.entity, column: toColumn }
+    });
+
+    // The link columns may have been renamed or dropped in the preparation step
+    const parentLink = from.parentLink;
+    if (parentLink && from.connectionId === to.connectionId && parentLink.entity === to.entity
+      && from.columns.includes(parentLink.column) && to.columns.includes(parentLink.parentColumn)) {
+      link(parentLink.column, parentLink.parentColumn);
+    }
+
+    from.columns.forEach(column => {
+      if (column === parentLink?.column) return;
+      if (!KEY_COLUMN.test(column)) return;
+      const same = to.columns.find(c => c.toLowerCase() === column.toLowerCase());
+      if (same) return link(column, same);
+      const singular = to.entity.replace(/s$/i, '').toLowerCase();
+      const id = to.columns.find(c => c.toLowerCase() === 'id');
+      if (id && column.toLowerCase().replace(/[_\s.-]/g, '') === `${singular}id`) link(column, id);
+    });
+  }));
+  return candidates;
+};
+
+/**
+ * Relationships the data supports among the name-based candidates: the "one" column is unique and holds
+ * at least MIN_SUGGESTION_MATCH of the "many" column's values. Declared relationships are left out;
+ * of a one-to-one pair only one direction is suggested.
+ */
+export const suggestRelationships = async (connections: DataConnection[], declared: LocalRelationship[]): Promise<LocalRelationship[]> => {
+  const datasetOf = (ref: LocalColumnRef) => connections.find(c => c.id === ref.connectionId)?.dataset?.id;
+  const candidates = relationshipCandidates(connections).filter(r =>
+    datasetOf(r.from) && datasetOf(r.to) && !declared.some(d => linksSameColumns(d, r)));
+
+  const toStore = (ref: LocalColumnRef) => ({ datasetId: datasetOf(ref)!, entity: ref.entity, column: ref.column });
+  const matches = await measureLinks(candidates.map((r): StoreLinkCandidate => ({ from: toStore(r.from), to: toStore(r.to) })));
+
+  const suggestions: LocalRelationship[] = [];
+  candidates.forEach((r, i) => {
+    const match = matches[i];
+    if (match === null || match === undefined || match < MIN_SUGGESTION_MATCH) return;
+    if (!suggestions.some(s => linksSameColumns(s, r))) suggestions.push(r);
+  });
+  return suggestions;
+};
@@ -0,0 +1,73 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { DataPoint } from '../types';
+import { ColumnarTable } from './columnarTable';
+
+// Where sql.js fetches its WASM binary; the version must match sql.js in package.json
+const SQL_JS_DIST = 'https://cdn.jsdelivr.net/npm/sql.js@1.14.2/dist/';
+
+let engine: Promise<SqlJsStatic> | null = null;
+
+const loadEngine = (): Promise<SqlJsStatic> => {
+  if (!engine) {
+    // Under Node (npm test) sql.js reads the binary from its own package instead
+    const inNode = typeof process !== 'undefined' && !!process.versions?.node;
+    engine = initSqlJs(inNode ? undefined : { locateFile: file => `${SQL_JS_DIST}${file}` });
+    // Allow a later query to try again (e.g. after going back online)
+    engine.catch(() => { engine = null; });
+  }
+  return engine;
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const cellValue = (table: ColumnarTable, column: number, row: number): SqlValue => {
+  const data = table.columns[column];
+  if (data.kind === 'number') return data.nulls?.[row] ? null : data.values[row];
+  const value = data.values[row];
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'object' ? JSON.stringify(value) : value;
+};
+
+/**
+ * An in-memory SQLite database with one table per entity (of an uploaded file, or the SQL mock's), named like it.
+ * Columns are untyped, so every value keeps the type it was uploaded with (booleans become 0/1).
+ * The database is read-only once loaded: a generated query can't change or drop the data.
+ */
+export const openSqlDatabase = async (tables: Record<string, ColumnarTable>): Promise<Database> => {
+  const SQL = await loadEngine();
+  const db = new SQL.Database();
+  try {
+    Object.entries(tables).forEach(([name, table]) => {
+      if (table.names.length === 0) return;
+      db.run(`CREATE TABLE ${quoteIdentifier(name)} (${table.names.map(quoteIdentifier).join(', ')})`);
+      const insert = db.prepare(`INSERT INTO ${quoteIdentifier(name)} VALUES (${table.names.map(() => '?').join(', ')})`);
+      db.run('BEGIN');
+      for (let row = 0; row < table.rowCount; row++) {
+        insert.run(table.names.map((_, column) => cellValue(table, column, row)));
+      }
+      db.run('COMMIT');
+      insert.free();
+    });
+    db.run('PRAGMA query_only = ON');
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+  return db;
+};
+
+/**
+ * Runs one SELECT (or WITH ... SELECT) statement and returns its rows.
+ */
+export const runSql = (db: Database, sql: string): DataPoint[] => {
+  const statement = db.prepare(sql.trim().replace(/;\s*$/, ''));
+  try {
+    if (!statement.getColumnNames().length) throw new Error('ניתן להריץ רק שאילתות SELECT');
+    const rows: DataPoint[] = [];
+    while (statement.step()) rows.push(statement.getAsObject());
+    return rows;
+  } finally {
+    statement.free();
+  }
+};
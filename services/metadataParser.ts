@@ -0,0 +1,570 @@
+import {
+  DatabaseSchema, SchemaEntity, SchemaField, SchemaNavigationProperty,
+  SchemaEnumType, SchemaComplexType, SchemaOperation, SchemaParameter,
+  NavigationCardinality, ODataVersion, ServiceCapabilities
+} from '../types';
+
+const CAPABILITIES_NS = 'Org.OData.Capabilities.V1';
+const APPLY_SUPPORTED_TERM = 'Org.OData.Aggregation.V1.ApplySupported';
+const CORE_COMPUTED_TERM = 'Org.OData.Core.V1.Computed';
+const CORE_DESCRIPTION_TERM = 'Org.OData.Core.V1.Description';
+const COMMON_LABEL_TERM = 'com.sap.vocabularies.Common.v1.Label';
+const MEASURES_NS = 'Org.OData.Measures.V1';
+const SAP_NS = 'http://www.sap.com/Protocols/SAPData';
+
+// v2 navigation properties point at an Association end instead of carrying a Type
+interface RawNavigationProperty extends SchemaNavigationProperty {
+  relationship?: string;
+  toRole?: string;
+}
+
+interface RawEntityType {
+  fullName: string;
+  label?: string;
+  baseType?: string;
+  fields: SchemaField[];
+  keys: string[];
+  navigationProperties: RawNavigationProperty[];
+}
+
+// v4 Function / Action declaration, before imports give unbound ones their URL name
+interface RawOperation {
+  kind: 'function' | 'action';
+  isBound: boolean;
+  parameters: SchemaParameter[]; // Including the binding parameter
+  returnType?: string;
+}
+
+interface AssociationEnd {
+  type: string;
+  multiplicity: string;
+}
+
+/**
+ * Direct child elements with the given local name (ignores edmx:/edm namespace prefixes).
+ */
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(el => el.localName === localName);
+
+/**
+ * All descendant elements with the given local name.
+ */
+const descendantElements = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+/**
+ * Reads a SAP annotation attribute (sap:updatable, sap:label, ...) as a string, or null when absent.
+ */
+const sapAttribute = (el: Element, name: string): string | null =>
+  Array.from(el.attributes).find(a => a.localName === name && (a.namespaceURI === SAP_NS || a.prefix === 'sap'))?.value ?? null;
+
+/**
+ * Strips a Collection(...) wrapper, returning the item type and whether it was a collection.
+ */
+export const unwrapCollection = (type: string): { itemType: string; isCollection: boolean } => {
+  const match = type.match(/^Collection\((.+)\)$/);
+  return match ? { itemType: match[1], isCollection: true } : { itemType: type, isCollection: false };
+};
+
+/**
+ * Reads a boolean annotation value from a Bool attribute, a <Bool> child, or a property of a <Record>.
+ * A Boolean term applied without a value means true.
+ */
+const readAnnotationBool = (annotation: Element, property?: string): boolean | undefined => {
+  let valueHolder: Element | undefined = annotation;
+  if (property) {
+    const record = childElements(annotation, "Record")[0];
+    valueHolder = record && childElements(record, "PropertyValue").find(pv => pv.getAttribute("Property") === property);
+    if (!valueHolder) return undefined;
+  }
+  const attr = valueHolder.getAttribute("Bool");
+  if (attr !== null) return attr === "true";
+  const boolEl = childElements(valueHolder, "Bool")[0];
+  if (boolEl) return boolEl.textContent?.trim() === "true";
+  return property ? undefined : true;
+};
+
+/**
+ * Reads a collection of strings (or enum members) from a property of a <Record> annotation.
+ */
+const readAnnotationStrings = (annotation: Element, property: string): string[] => {
+  const record = childElements(annotation, "Record")[0];
+  const propertyValue = record && childElements(record, "PropertyValue").find(pv => pv.getAttribute("Property") === property);
+  const collection = propertyValue && childElements(propertyValue, "Collection")[0];
+  if (!collection) return [];
+  return Array.from(collection.children)
+    .map(el => (el.textContent || '').trim().split('/').pop()!)
+    .filter(Boolean);
+};
+
+/**
+ * Reads a String annotation (attribute or <String> child) or a Path annotation (attribute or <Path> child).
+ */
+const readAnnotationValue = (annotation: Element): { value?: string; path?: string } => {
+  const value = annotation.getAttribute("String") ?? childElements(annotation, "String")[0]?.textContent?.trim();
+  if (value) return { value };
+  const path = annotation.getAttribute("Path") ?? childElements(annotation, "Path")[0]?.textContent?.trim();
+  return path ? { path } : {};
+};
+
+const multiplicityToCardinality = (multiplicity: string): NavigationCardinality => {
+  if (multiplicity === '*') return 'many';
+  return multiplicity === '1' ? 'one' : 'zeroOrOne';
+};
+
+/**
+ * Detects the protocol version from edmx:Edmx/@Version (4.0) or DataServices/@m:DataServiceVersion (v1-v3).
+ */
+export const detectODataVersion = (xmlDoc: Document): ODataVersion | undefined => {
+  const edmx = descendantElements(xmlDoc, "Edmx")[0];
+  const edmxVersion = edmx?.getAttribute("Version");
+  if (edmxVersion) return edmxVersion.startsWith('4') ? '4.0' : '2.0';
+
+  const dataServices = descendantElements(xmlDoc, "DataServices")[0];
+  const dsVersion = dataServices && Array.from(dataServices.attributes).find(a => a.localName === "DataServiceVersion")?.value;
+  if (dsVersion) return dsVersion.startsWith('4') ? '4.0' : '2.0';
+  return undefined;
+};
+
+/**
+ * Parses OData $metadata XML (CSDL) into a JSON schema structure.
+ * Types are tracked by fully qualified name so equal short names in different namespaces don't collide.
+ */
+export const parseMetadata = (xmlText: string): DatabaseSchema => {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(xmlText, "text/xml");
+
+  const schemas = descendantElements(xmlDoc, "Schema");
+
+  // Schema and vocabulary aliases (e.g. Alias="self", Alias="Capabilities") may be used
+  // instead of the namespace in type references and annotation terms
+  const aliases = new Map<string, string>();
+  [...schemas, ...descendantElements(xmlDoc, "Include")].forEach(el => {
+    const ns = el.getAttribute("Namespace");
+    const alias = el.getAttribute("Alias");
+    if (ns && alias) aliases.set(alias, ns);
+  });
+
+  const qualify = (typeName: string): string => {
+    const { itemType, isCollection } = unwrapCollection(typeName);
+    const dot = itemType.lastIndexOf('.');
+    let resolved = itemType;
+    if (dot > 0) {
+      const prefix = itemType.substring(0, dot);
+      if (aliases.has(prefix)) resolved = `${aliases.get(prefix)}${itemType.substring(dot)}`;
+    }
+    return isCollection ? `Collection(${resolved})` : resolved;
+  };
+
+  // Annotations by target path ("NS.Type", "NS.Type/Property", "NS.Container/EntitySet"),
+  // collected from inline <Annotation> children and external <Annotations Target="..."> blocks
+  const annotations = new Map<string, Element[]>();
+  const addAnnotations = (target: string, holder: Element) => {
+    const found = childElements(holder, "Annotation");
+    if (found.length === 0) return;
+    annotations.set(target, [...(annotations.get(target) || []), ...found]);
+  };
+  descendantElements(xmlDoc, "Annotations").forEach(block => {
+    const target = block.getAttribute("Target");
+    if (!target) return;
+    const [head, ...rest] = target.split('/');
+    addAnnotations([qualify(head), ...rest].join('/'), block);
+  });
+
+  const findAnnotation = (target: string, term: string): Element | undefined =>
+    annotations.get(target)?.find(a => qualify(a.getAttribute("Term") || "") === term);
+
+  const annotationString = (target: string, term: string): string | undefined => {
+    const annotation = findAnnotation(target, term);
+    return annotation ? readAnnotationValue(annotation).value : undefined;
+  };
+
+  // Labels, descriptions and units from vocabulary annotations (v4) or sap: attributes (v2)
+  const annotateField = (field: SchemaField, prop: Element, siblings: Element[], target: string) => {
+    const label = annotationString(target, COMMON_LABEL_TERM) ?? sapAttribute(prop, "label");
+    if (label) field.label = label;
+    const description = annotationString(target, CORE_DESCRIPTION_TERM) ?? sapAttribute(prop, "quickinfo");
+    if (description) field.description = description;
+
+    const currency = findAnnotation(target, `${MEASURES_NS}.ISOCurrency`);
+    const unit = findAnnotation(target, `${MEASURES_NS}.Unit`);
+    if (currency) {
+      const { value, path } = readAnnotationValue(currency);
+      if (value) field.currency = value;
+      if (path) field.currencyProperty = path;
+    } else if (unit) {
+      const { value, path } = readAnnotationValue(unit);
+      if (value) field.unit = value;
+      if (path) field.unitProperty = path;
+    } else {
+      // sap:unit names the property holding the code; its sap:semantics tells currency from unit of measure
+      const unitProperty = sapAttribute(prop, "unit");
+      const unitEl = unitProperty ? siblings.find(p => p.getAttribute("Name") === unitProperty) : undefined;
+      if (unitProperty && unitEl && sapAttribute(unitEl, "semantics") === "currency-code") field.currencyProperty = unitProperty;
+      else if (unitProperty) field.unitProperty = unitProperty;
+    }
+  };
+
+  // typeName is the qualified name of the declaring type, for property annotation targets
+  const readProperties = (el: Element, typeName: string): SchemaField[] => {
+    const properties = childElements(el, "Property");
+    return properties.map(prop => {
+      const field: SchemaField = {
+        name: prop.getAttribute("Name") || "Unknown",
+        type: qualify(prop.getAttribute("Type") || "Edm.String")
+      };
+      if (prop.getAttribute("Nullable") === "false") field.nullable = false;
+      const maxLength = Number(prop.getAttribute("MaxLength"));
+      if (maxLength > 0) field.maxLength = maxLength;
+      if (sapAttribute(prop, "updatable") === "false") field.readOnly = true;
+      annotateField(field, prop, properties, `${typeName}/${field.name}`);
+      return field;
+    });
+  };
+
+  const readParameters = (el: Element): SchemaParameter[] =>
+    childElements(el, "Parameter").map(p => {
+      const parameter: SchemaParameter = { name: p.getAttribute("Name") || "", type: qualify(p.getAttribute("Type") || "Edm.String") };
+      if (p.getAttribute("Nullable") === "false") parameter.nullable = false;
+      return parameter;
+    });
+
+  const entityTypes = new Map<string, RawEntityType>();
+  // v4 operations by qualified name; a name may be overloaded with different bindings
+  const rawOperations = new Map<string, RawOperation[]>();
+  const operations: SchemaOperation[] = [];
+  // v2 relationships: association name -> role -> end, and association name -> role -> entity set
+  const associations = new Map<string, Map<string, AssociationEnd>>();
+  const associationSets = new Map<string, Map<string, string>>();
+  const complexTypes: SchemaComplexType[] = [];
+  const enumTypes: SchemaEnumType[] = [];
+  const entities: SchemaEntity[] = [];
+  const containerNames: string[] = [];
+
+  // 1. Collect types per namespace
+  schemas.forEach(schemaEl => {
+    const ns = schemaEl.getAttribute("Namespace") || "";
+
+    childElements(schemaEl, "EntityType").forEach(et => {
+      const name = et.getAttribute("Name");
+      if (!name) return;
+
+      const keyEl = childElements(et, "Key")[0];
+      const keys = keyEl
+        ? childElements(keyEl, "PropertyRef").map(ref => ref.getAttribute("Name") || "").filter(Boolean)
+        : [];
+
+      const navigationProperties: RawNavigationProperty[] = [];
+      childElements(et, "NavigationProperty").forEach(nav => {
+        const navName = nav.getAttribute("Name");
+        const navType = nav.getAttribute("Type");
+        const relationship = nav.getAttribute("Relationship");
+        if (!navName) return;
+
+        if (!navType) {
+          // v2: resolved against the Association once all schemas are read
+          if (relationship) {
+            navigationProperties.push({
+              name: navName,
+              targetType: '',
+              cardinality: 'zeroOrOne',
+              relationship: qualify(relationship),
+              toRole: nav.getAttribute("ToRole") || undefined
+            });
+          }
+          return;
+        }
+
+        const { itemType, isCollection } = unwrapCollection(qualify(navType));
+        const cardinality: NavigationCardinality = isCollection
+          ? 'many'
+          : (nav.getAttribute("Nullable") === "false" ? 'one' : 'zeroOrOne');
+
+        navigationProperties.push({
+          name: navName,
+          targetType: itemType,
+          cardinality,
+          partner: nav.getAttribute("Partner") || undefined
+        });
+      });
+
+      addAnnotations(`${ns}.${name}`, et);
+      childElements(et, "Property").forEach(prop => addAnnotations(`${ns}.${name}/${prop.getAttribute("Name")}`, prop));
+
+      const baseType = et.getAttribute("BaseType");
+      entityTypes.set(`${ns}.${name}`, {
+        fullName: `${ns}.${name}`,
+        label: annotationString(`${ns}.${name}`, COMMON_LABEL_TERM) ?? sapAttribute(et, "label") ?? undefined,
+        baseType: baseType ? qualify(baseType) : undefined,
+        fields: readProperties(et, `${ns}.${name}`),
+        keys,
+        navigationProperties
+      });
+    });
+
+    [...childElements(schemaEl, "Function"), ...childElements(schemaEl, "Action")].forEach(op => {
+      const name = op.getAttribute("Name");
+      if (!name) return;
+      const returnType = childElements(op, "ReturnType")[0]?.getAttribute("Type");
+      const raw: RawOperation = {
+        kind: op.localName === "Action" ? 'action' : 'function',
+        isBound: op.getAttribute("IsBound") === "true",
+        parameters: readParameters(op),
+        returnType: returnType ? qualify(returnType) : undefined
+      };
+      rawOperations.set(`${ns}.${name}`, [...(rawOperations.get(`${ns}.${name}`) || []), raw]);
+    });
+
+    childElements(schemaEl, "Association").forEach(assoc => {
+      const name = assoc.getAttribute("Name");
+      if (!name) return;
+      const ends = new Map<string, AssociationEnd>();
+      childElements(assoc, "End").forEach(end => {
+        const role = end.getAttribute("Role");
+        const type = end.getAttribute("Type");
+        if (role && type) ends.set(role, { type: qualify(type), multiplicity: end.getAttribute("Multiplicity") || "0..1" });
+      });
+      associations.set(`${ns}.${name}`, ends);
+    });
+
+    childElements(schemaEl, "EntityContainer").forEach(container => {
+      const containerName = `${ns}.${container.getAttribute("Name")}`;
+      containerNames.push(containerName);
+      addAnnotations(containerName, container);
+      childElements(container, "EntitySet").forEach(es => addAnnotations(`${containerName}/${es.getAttribute("Name")}`, es));
+
+      [...childElements(container, "FunctionImport"), ...childElements(container, "ActionImport")]
+        .forEach(imp => addAnnotations(`${containerName}/${imp.getAttribute("Name")}`, imp));
+    });
+
+    descendantElements(schemaEl, "AssociationSet").forEach(assocSet => {
+      const association = assocSet.getAttribute("Association");
+      if (!association) return;
+      const roles = new Map<string, string>();
+      childElements(assocSet, "End").forEach(end => {
+        const role = end.getAttribute("Role");
+        const entitySet = end.getAttribute("EntitySet");
+        if (role && entitySet) roles.set(role, entitySet);
+      });
+      associationSets.set(qualify(association), roles);
+    });
+
+    childElements(schemaEl, "ComplexType").forEach(ct => {
+      const name = ct.getAttribute("Name");
+      if (!name) return;
+      childElements(ct, "Property").forEach(prop => addAnnotations(`${ns}.${name}/${prop.getAttribute("Name")}`, prop));
+      complexTypes.push({ name: `${ns}.${name}`, fields: readProperties(ct, `${ns}.${name}`) });
+    });
+
+    childElements(schemaEl, "EnumType").forEach(en => {
+      const name = en.getAttribute("Name");
+      if (!name) return;
+      const isFlags = en.getAttribute("IsFlags") === "true";
+      enumTypes.push({
+        name: `${ns}.${name}`,
+        underlyingType: en.getAttribute("UnderlyingType") || undefined,
+        isFlags: isFlags || undefined,
+        // Members without an explicit value are numbered by position
+        members: childElements(en, "Member").map((m, idx) => ({
+          name: m.getAttribute("Name") || "",
+          value: m.getAttribute("Value") ?? String(idx)
+        }))
+      });
+    });
+  });
+
+  // 2. Resolve v2 navigation properties through their Association ends
+  entityTypes.forEach(raw => {
+    raw.navigationProperties.forEach(nav => {
+      if (!nav.relationship || !nav.toRole) return;
+      const end = associations.get(nav.relationship)?.get(nav.toRole);
+      if (!end) return;
+      nav.targetType = end.type;
+      nav.cardinality = multiplicityToCardinality(end.multiplicity);
+    });
+    raw.navigationProperties = raw.navigationProperties.filter(nav => nav.targetType);
+  });
+
+  // 3. Flatten inheritance: derived types include the properties, keys and navigation of their base types
+  const resolveEntityType = (fullName: string, seen = new Set<string>()): RawEntityType | undefined => {
+    const raw = entityTypes.get(fullName);
+    if (!raw || !raw.baseType || seen.has(fullName)) return raw;
+    seen.add(fullName);
+    const base = resolveEntityType(raw.baseType, seen);
+    if (!base) return raw;
+    return {
+      ...raw,
+      fields: [...base.fields, ...raw.fields],
+      keys: raw.keys.length > 0 ? raw.keys : base.keys,
+      navigationProperties: [...base.navigationProperties, ...raw.navigationProperties]
+    };
+  };
+
+  const container = containerNames[0];
+
+  // ApplySupported may be put on the entity set, its type, or the whole container
+  const isApplySupported = (raw: RawEntityType, setTarget?: string): boolean | undefined => {
+    const annotation = (setTarget && findAnnotation(setTarget, APPLY_SUPPORTED_TERM))
+      || findAnnotation(raw.fullName, APPLY_SUPPORTED_TERM)
+      || (container && findAnnotation(container, APPLY_SUPPORTED_TERM));
+    return annotation ? true : undefined;
+  };
+
+  // Core.Computed may sit on the property of the type or of one of its base types
+  const isComputed = (raw: RawEntityType, property: string): boolean => {
+    for (let type: RawEntityType | undefined = raw; type; type = type.baseType ? entityTypes.get(type.baseType) : undefined) {
+      const annotation = findAnnotation(`${type.fullName}/${property}`, CORE_COMPUTED_TERM);
+      if (annotation) return readAnnotationBool(annotation) === true;
+    }
+    return false;
+  };
+
+  // Only explicit permissions count: Capabilities.*Restrictions on the set or its type (v4),
+  // sap:updatable / sap:creatable / sap:deletable on the entity set (v2)
+  const readWritePermissions = (raw: RawEntityType, entitySet?: Element, setTarget?: string) => {
+    const restriction = (term: string, property: string): boolean | undefined => {
+      const annotation = (setTarget && findAnnotation(setTarget, `${CAPABILITIES_NS}.${term}`))
+        || findAnnotation(raw.fullName, `${CAPABILITIES_NS}.${term}`);
+      return annotation ? readAnnotationBool(annotation, property) : undefined;
+    };
+    const sapFlag = (name: string): boolean | undefined => {
+      const value = entitySet ? sapAttribute(entitySet, name) : null;
+      return value === null ? undefined : value === "true";
+    };
+    const allowed = (value: boolean | undefined) => value === true ? true : undefined;
+    return {
+      updatable: allowed(restriction('UpdateRestrictions', 'Updatable') ?? sapFlag('updatable')),
+      insertable: allowed(restriction('InsertRestrictions', 'Insertable') ?? sapFlag('creatable')),
+      deletable: allowed(restriction('DeleteRestrictions', 'Deletable') ?? sapFlag('deletable'))
+    };
+  };
+
+  // A label on the entity set wins over the one on its type
+  const readEntityLabel = (raw: RawEntityType, entitySet?: Element, setTarget?: string): string | undefined =>
+    (setTarget && annotationString(setTarget, COMMON_LABEL_TERM))
+      || (entitySet && sapAttribute(entitySet, "label"))
+      || raw.label;
+
+  const toEntity = (name: string, raw: RawEntityType, bindings: Map<string, string>, setTarget?: string, entitySet?: Element): SchemaEntity => ({
+    name,
+    label: readEntityLabel(raw, entitySet, setTarget),
+    applySupported: isApplySupported(raw, setTarget),
+    ...readWritePermissions(raw, entitySet, setTarget),
+    entityType: raw.fullName,
+    keys: raw.keys,
+    fields: raw.fields.map(f => {
+      const field = raw.keys.includes(f.name) ? { ...f, isKey: true } : { ...f };
+      if (isComputed(raw, f.name)) field.readOnly = true;
+      return field;
+    }),
+    navigationProperties: raw.navigationProperties.map(({ relationship, toRole, ...nav }) => ({
+      ...nav,
+      targetEntitySet: bindings.get(nav.name)
+        ?? (relationship && toRole ? associationSets.get(relationship)?.get(toRole) : undefined)
+    }))
+  });
+
+  // 4. Map EntitySets to EntityTypes
+  const entitySets = descendantElements(xmlDoc, "EntitySet");
+
+  if (entitySets.length > 0) {
+    entitySets.forEach(es => {
+      const name = es.getAttribute("Name");
+      const entityTypeFull = es.getAttribute("EntityType");
+      if (!name || !entityTypeFull) return;
+
+      const raw = resolveEntityType(qualify(entityTypeFull));
+      if (!raw) return;
+
+      // NavigationPropertyBinding Path may be type-cast ("NS.Derived/Nav"), Target may be container-qualified
+      const bindings = new Map<string, string>();
+      childElements(es, "NavigationPropertyBinding").forEach(b => {
+        const path = b.getAttribute("Path");
+        const target = b.getAttribute("Target");
+        if (path && target) bindings.set(path.split('/').pop()!, target.split('/').pop()!);
+      });
+
+      const containerEl = es.parentElement;
+      const containerNs = containerEl?.parentElement?.getAttribute("Namespace");
+      const setTarget = containerEl && containerNs ? `${containerNs}.${containerEl.getAttribute("Name")}/${name}` : undefined;
+
+      entities.push(toEntity(name, raw, bindings, setTarget, es));
+    });
+  } else {
+    // Without a container, name entities by their short type name unless it is ambiguous
+    const shortNames = Array.from(entityTypes.keys()).map(fullName => fullName.split('.').pop()!);
+    entityTypes.forEach((_, fullName) => {
+      const raw = resolveEntityType(fullName)!;
+      const shortName = fullName.split('.').pop()!;
+      const isAmbiguous = shortNames.filter(n => n === shortName).length > 1;
+      entities.push(toEntity(isAmbiguous ? fullName : shortName, raw, new Map()));
+    });
+  }
+
+  // 5. Operation imports (resolved once all schemas are read, the declarations may come later),
+  // then bound operations, called on an entity set or entity by their qualified name
+  descendantElements(xmlDoc, "EntityContainer").forEach(containerEl => {
+    const containerName = `${containerEl.parentElement?.getAttribute("Namespace")}.${containerEl.getAttribute("Name")}`;
+    [...childElements(containerEl, "FunctionImport"), ...childElements(containerEl, "ActionImport")].forEach(imp => {
+      const name = imp.getAttribute("Name");
+      if (!name) return;
+      const label = annotationString(`${containerName}/${name}`, COMMON_LABEL_TERM) ?? sapAttribute(imp, "label") ?? undefined;
+      const entitySet = imp.getAttribute("EntitySet")?.split('/').pop() || undefined;
+      const target = imp.getAttribute("Function") ?? imp.getAttribute("Action");
+
+      if (target) {
+        // v4: the import points at the unbound overload of a declared function or action
+        const raw = rawOperations.get(qualify(target))?.find(op => !op.isBound);
+        if (raw) operations.push({ name, kind: raw.kind, parameters: raw.parameters, returnType: raw.returnType, entitySet, label });
+        return;
+      }
+
+      // v2: the import declares everything itself; anything not called with GET has side effects
+      const returnType = imp.getAttribute("ReturnType");
+      const httpMethod = Array.from(imp.attributes).find(a => a.localName === "HttpMethod")?.value;
+      operations.push({
+        name,
+        kind: httpMethod && httpMethod.toUpperCase() !== 'GET' ? 'action' : 'function',
+        parameters: readParameters(imp),
+        returnType: returnType ? qualify(returnType) : undefined,
+        entitySet,
+        label
+      });
+    });
+  });
+
+  rawOperations.forEach((overloads, qualifiedName) => {
+    overloads.filter(op => op.isBound && op.parameters.length > 0).forEach(op => {
+      const [binding, ...parameters] = op.parameters;
+      operations.push({ name: qualifiedName, kind: op.kind, parameters, returnType: op.returnType, boundTo: binding.type });
+    });
+  });
+
+  // 6. Service capabilities, read from the (first) entity container
+  const odataVersion = detectODataVersion(xmlDoc);
+  const capabilities: ServiceCapabilities = {};
+  if (container) {
+    const batchSupported = findAnnotation(container, `${CAPABILITIES_NS}.BatchSupported`);
+    const batchSupport = findAnnotation(container, `${CAPABILITIES_NS}.BatchSupport`);
+    if (batchSupported) capabilities.batchSupported = readAnnotationBool(batchSupported);
+    else if (batchSupport) capabilities.batchSupported = readAnnotationBool(batchSupport, "Supported");
+    // $batch is part of the v2 protocol and v2 metadata never carries the Capabilities vocabulary
+    else if (odataVersion === '2.0') capabilities.batchSupported = true;
+
+    const applySupported = findAnnotation(container, APPLY_SUPPORTED_TERM);
+    if (applySupported) {
+      capabilities.applySupported = true;
+      capabilities.applyTransformations = readAnnotationStrings(applySupported, "Transformations");
+    }
+  }
+
+  return {
+    entities,
+    odataVersion,
+    capabilities,
+    namespaces: schemas.map(s => s.getAttribute("Namespace") || "").filter(Boolean),
+    enumTypes,
+    complexTypes,
+    operations
+  };
+};
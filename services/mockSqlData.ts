@@ -0,0 +1,102 @@
+import { DataPoint } from '../types';
+
+// Same seed, same rows: widgets show stable numbers across renders and reloads
+const MOCK_SEED = 20240101;
+const ORDER_COUNT = 1200;
+
+// mulberry32: small, fast and good enough for demo data
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const REGIONS = ['North', 'South', 'Center', 'Jerusalem', 'Sharon'];
+
+// Prices in ILS per category
+const CATALOG: Record<string, { names: string[]; price: [number, number] }> = {
+  Electronics: { names: ['Laptop', 'Monitor', 'Headphones', 'Keyboard', 'Smartphone', 'Tablet', 'Camera', 'Speaker', 'Router', 'Smartwatch'], price: [150, 6000] },
+  Furniture: { names: ['Desk', 'Office Chair', 'Bookshelf', 'Sofa', 'Dining Table', 'Lamp', 'Cabinet', 'Bed Frame', 'Armchair', 'Coffee Table'], price: [120, 4500] },
+  Clothing: { names: ['T-Shirt', 'Jeans', 'Jacket', 'Sneakers', 'Dress', 'Sweater', 'Coat', 'Scarf', 'Boots', 'Hat'], price: [40, 900] }
+};
+
+const EMPLOYEES = [
+  'Noa Levi', 'Yossi Cohen', 'Maya Mizrahi', 'Avi Peretz', 'Tamar Biton', 'Eitan Friedman',
+  'Shira Avraham', 'Omer Katz', 'Dana Shapiro', 'Itai Ben-David', 'Michal Azoulay', 'Roni Goldberg'
+];
+
+const CUSTOMERS = [
+  'Alpha Tech', 'Blue Ocean Ltd', 'Cedar Systems', 'Delta Retail', 'Eden Foods', 'Falcon Logistics',
+  'Galil Motors', 'Horizon Media', 'Iris Design', 'Jasmine Hotels', 'Keter Labs', 'Lotus Pharma',
+  'Maof Insurance', 'Negev Energy', 'Orion Software', 'Pardes Realty', 'Quartz Finance', 'Rimon Studios',
+  'Sapir Education', 'Tavor Security'
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The BigQuery mock's tables, matching MOCK_SCHEMA and consistent with each other: every order points to
+ * an existing product and employee, its TotalAmount is UnitPrice x Quantity, and each employee's
+ * ActualSales is the sum of their non-cancelled orders. Orders are spread over 2024 in OrderID order.
+ */
+export const generateMockSqlTables = (seed: number = MOCK_SEED): Record<string, DataPoint[]> => {
+  const random = createRandom(seed);
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const products = Object.entries(CATALOG).flatMap(([category, { names, price }]) => names.map(name => ({ category, name, price })))
+    .map((product, i) => ({
+      ProductID: i + 1,
+      ProductName: product.name,
+      Category: product.category,
+      UnitPrice: round2(between(product.price[0], product.price[1])),
+      StockLevel: Math.floor(between(0, 500))
+    }));
+
+  // Each employee covers one region, so region and salesperson agree on every order
+  const employees = EMPLOYEES.map((name, i) => ({
+    EmployeeID: i + 1,
+    FullName: name,
+    Department: i < 2 ? 'Key Accounts' : i < 4 ? 'Online' : 'Sales',
+    Region: REGIONS[i % REGIONS.length]
+  }));
+
+  const yearStart = Date.UTC(2024, 0, 1);
+  const yearDays = 366;
+  const orders = Array.from({ length: ORDER_COUNT }, (_, i) => {
+    const product = pick(products);
+    const employee = pick(employees);
+    const quantity = 1 + Math.floor(random() * 5);
+    const status = random();
+    return {
+      OrderID: 10001 + i,
+      CustomerName: pick(CUSTOMERS),
+      ProductID: product.ProductID,
+      EmployeeID: employee.EmployeeID,
+      OrderDate: new Date(yearStart + Math.floor((i / ORDER_COUNT) * yearDays) * 86400000).toISOString().substring(0, 10),
+      Quantity: quantity,
+      TotalAmount: round2(product.UnitPrice * quantity),
+      Region: employee.Region,
+      Status: status < 0.75 ? 'Completed' : status < 0.92 ? 'Pending' : 'Cancelled'
+    };
+  });
+
+  const Employees = employees.map(({ Region: _region, ...employee }) => {
+    const actual = round2(orders
+      .filter(o => o.EmployeeID === employee.EmployeeID && o.Status !== 'Cancelled')
+      .reduce((sum, o) => sum + o.TotalAmount, 0));
+    return {
+      ...employee,
+      // Targets around the actual figure, so some employees beat theirs and some miss
+      SalesTarget: Math.round(actual * between(0.8, 1.25) / 1000) * 1000,
+      ActualSales: actual
+    };
+  });
+
+  return { Orders: orders, Products: products, Employees };
+};
@@ -1,15 +1,149 @@
-
+import type { Database } from 'sql.js';
 import { DataPoint } from '../types';
+import { RequestOptions, createRequestSignal, abortableDelay } from './requestControl';
+import { toColumnar } from './columnarTable';
+import { openSqlDatabase, runSql } from './localSql';
+import { generateMockSqlTables } from './mockSqlData';
+
+// strftime formats of the date parts EXTRACT can read
+const EXTRACT_FORMATS: Record<string, string> = { YEAR: '%Y', MONTH: '%m', DAY: '%d', HOUR: '%H', MINUTE: '%M', DAYOFYEAR: '%j' };
+
+// Index of the parenthesis closing the one at `open`, skipping quoted text
+const closingParen = (sql: string, open: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < sql.length; i++) {
+    const ch = sql[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Arguments of a call, split at top-level commas
+const splitArgs = (text: string): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      args.push(text.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+  args.push(text.substring(start).trim());
+  return args;
+};
 
 /**
- * Simulates executing a SQL query against BigQuery.
- * 
+ * Rewrites every call of a function; calls nested in its arguments are rewritten first.
+ */
+const rewriteCalls = (sql: string, name: string, rewrite: (args: string[]) => string): string => {
+  const pattern = new RegExp(`\\b${name}\\s*\\(`, 'gi');
+  let result = '';
+  let from = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sql))) {
+    const open = match.index + match[0].length - 1;
+    const close = closingParen(sql, open);
+    if (close === -1) break;
+    const args = splitArgs(rewriteCalls(sql.substring(open + 1, close), name, rewrite));
+    result += sql.substring(from, match.index) + rewrite(args);
+    from = close + 1;
+    pattern.lastIndex = from;
+  }
+  return result + sql.substring(from);
+};
+
+const truncateDate = (value: string, part: string): string => {
+  switch (part.toUpperCase()) {
+    case 'YEAR': return `date(${value}, 'start of year')`;
+    case 'QUARTER': return `printf('%s-%02d-01', strftime('%Y', ${value}), ((CAST(strftime('%m', ${value}) AS INTEGER) - 1) / 3) * 3 + 1)`;
+    case 'MONTH': return `date(${value}, 'start of month')`;
+    case 'WEEK': return `date(${value}, '-' || strftime('%w', ${value}) || ' days')`;
+    default: return `date(${value})`;
+  }
+};
+
+/**
+ * Rewrites the GoogleSQL the model writes for BigQuery into SQLite: `project.dataset.Table` references,
+ * EXTRACT, FORMAT_DATE, DATE_TRUNC, COUNTIF, SAFE_DIVIDE, DATE literals and BigQuery type names.
+ * Anything else is left as written and fails with SQLite's error if SQLite doesn't know it.
+ */
+const toSqlite = (query: string, tables: string[]): string => {
+  const table = new RegExp(`^(${tables.join('|')})$`, 'i');
+  let sql = query.replace(/`([^`]+)`/g, (_, name: string) => {
+    const parts = name.split('.');
+    return table.test(parts[parts.length - 1]) ? `"${parts[parts.length - 1]}"` : parts.map(p => `"${p}"`).join('.');
+  });
+  sql = sql.replace(new RegExp(`\\b(?:[\\w-]+\\.){1,2}(${tables.join('|')})\\b(?!\\s*\\.)`, 'gi'), '$1');
+
+  sql = rewriteCalls(sql, 'EXTRACT', ([arg]) => {
+    const match = arg.match(/^(\w+)\s+FROM\s+([\s\S]+)$/i);
+    if (!match) return `EXTRACT(${arg})`;
+    const part = match[1].toUpperCase();
+    const value = match[2];
+    if (part === 'QUARTER') return `((CAST(strftime('%m', ${value}) AS INTEGER) + 2) / 3)`;
+    if (part === 'DAYOFWEEK') return `(CAST(strftime('%w', ${value}) AS INTEGER) + 1)`;
+    return EXTRACT_FORMATS[part] ? `CAST(strftime('${EXTRACT_FORMATS[part]}', ${value}) AS INTEGER)` : `EXTRACT(${arg})`;
+  });
+  ['FORMAT_DATE', 'FORMAT_DATETIME', 'FORMAT_TIMESTAMP'].forEach(name => {
+    sql = rewriteCalls(sql, name, ([format, value]) => `strftime(${format}, ${value})`);
+  });
+  ['DATE_TRUNC', 'DATETIME_TRUNC', 'TIMESTAMP_TRUNC'].forEach(name => {
+    sql = rewriteCalls(sql, name, ([value, part]) => truncateDate(value, part));
+  });
+  sql = rewriteCalls(sql, 'COUNTIF', ([condition]) => `SUM(CASE WHEN ${condition} THEN 1 ELSE 0 END)`);
+  sql = rewriteCalls(sql, 'SAFE_DIVIDE', ([a, b]) => `(CAST(${a} AS REAL) / NULLIF(${b}, 0))`);
+  sql = rewriteCalls(sql, 'CURRENT_DATE', () => `date('now')`);
+
+  return sql
+    .replace(/\b(?:DATE|TIMESTAMP|DATETIME)\s+('[^']*')/gi, '$1')
+    .replace(/\bAS\s+(?:INT64|BIGINT)\b/gi, 'AS INTEGER')
+    .replace(/\bAS\s+(?:FLOAT64|NUMERIC|BIGNUMERIC)\b/gi, 'AS REAL')
+    .replace(/\bAS\s+STRING\b/gi, 'AS TEXT');
+};
+
+let database: Promise<{ db: Database; tables: string[] }> | null = null;
+
+// The seeded dataset in SQLite, built on the first query
+const mockDatabase = () => {
+  if (!database) {
+    const tables = generateMockSqlTables();
+    database = openSqlDatabase(Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, toColumnar(rows)])))
+      .then(db => ({ db, tables: Object.keys(tables) }));
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+/**
+ * Simulates executing a SQL query against BigQuery: the query really runs, on a seeded dataset matching
+ * MOCK_SCHEMA (see mockSqlData), so the same widget always shows the same, correct numbers.
+ *
  * --- REAL IMPLEMENTATION NOTE ---
  * Browsers cannot connect directly to BigQuery due to security and CORS.
  * You must use a backend proxy (Node.js/Python).
- * 
+ *
  * Example Backend Call:
- * 
+ *
  * export const executeRealSqlQuery = async (query: string, projectId: string, datasetId: string): Promise<DataPoint[]> => {
  *   const response = await fetch('https://YOUR-BACKEND-API.com/api/bigquery/execute', {
  *     method: 'POST',
@@ -19,49 +153,19 @@ import { DataPoint } from '../types';
  *   return await response.json();
  * };
  */
-export const executeMockSqlQuery = async (query: string, projectId?: string, datasetId?: string): Promise<DataPoint[]> => {
-  // Simulate network latency
-  await new Promise(resolve => setTimeout(resolve, 800));
+export const executeMockSqlQuery = async (query: string, projectId?: string, datasetId?: string, options: RequestOptions = {}): Promise<DataPoint[]> => {
+  // Simulate network latency (cancellable like a real request)
+  const { signal, dispose } = createRequestSignal(options);
+  try {
+    await abortableDelay(800, signal);
+  } finally {
+    dispose();
+  }
 
   // Log to console to show we received the real credentials
   console.log(`[SQL Service] Executing on Project: ${projectId}, Dataset: ${datasetId}`);
   console.log(`[SQL Query]: ${query}`);
 
-  const lower = query.toLowerCase();
-
-  // Mock logic based on keywords
-  if (lower.includes('count')) {
-    return [{ value: Math.floor(Math.random() * 5000) + 1000 }];
-  }
-
-  if (lower.includes('sum')) {
-     return [{ value: Math.floor(Math.random() * 500000) + 50000 }];
-  }
-
-  if (lower.includes('group by') || lower.includes('orders')) {
-     if (lower.includes('country') || lower.includes('region')) {
-        return [
-            { name: 'Israel', value: 45000 },
-            { name: 'USA', value: 120000 },
-            { name: 'UK', value: 30000 },
-            { name: 'Germany', value: 60000 }
-        ];
-     }
-     if (lower.includes('date') || lower.includes('month')) {
-        return [
-            { name: '2024-01', value: 100 },
-            { name: '2024-02', value: 120 },
-            { name: '2024-03', value: 90 },
-            { name: '2024-04', value: 150 }
-        ];
-     }
-  }
-  
-  // Default fallback data for visualization
-  return [
-     { name: 'Category A', value: 100 },
-     { name: 'Category B', value: 200 },
-     { name: 'Category C', value: 150 },
-     { name: 'Category D', value: 50 }
-  ];
+  const { db, tables } = await mockDatabase();
+  return runSql(db, toSqlite(query, tables));
 };
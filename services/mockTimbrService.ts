@@ -1,5 +1,6 @@
 
 import { DataPoint } from '../types';
+import { RequestOptions, createRequestSignal, abortableDelay } from './requestControl';
 
 /**
  * Simulates executing a Semantic SQL query against a Timbr Knowledge Graph.
@@ -22,9 +23,14 @@ import { DataPoint } from '../types';
  *   return await response.json();
  * };
  */
-export const executeMockTimbrQuery = async (query: string, ontology?: string, token?: string): Promise<DataPoint[]> => {
-  // Simulate network latency
-  await new Promise(resolve => setTimeout(resolve, 1000));
+export const executeMockTimbrQuery = async (query: string, ontology?: string, token?: string, options: RequestOptions = {}): Promise<DataPoint[]> => {
+  // Simulate network latency (cancellable like a real request)
+  const { signal, dispose } = createRequestSignal(options);
+  try {
+    await abortableDelay(1000, signal);
+  } finally {
+    dispose();
+  }
 
   // Log to console to show we received the real credentials
   console.log(`[Timbr Service] Executing on Ontology: ${ontology}`);
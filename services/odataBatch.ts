@@ -0,0 +1,285 @@
+import { ODataVersion } from '../types';
+
+/**
+ * A single HTTP response, either from fetch or unpacked from a $batch response.
+ */
+export interface ODataHttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: any; // Parsed JSON when possible, otherwise the raw text
+}
+
+interface PendingRequest {
+  relativeUrl: string;
+  signal?: AbortSignal;
+  resolve: (response: ODataHttpResponse) => void;
+  reject: (error: any) => void;
+}
+
+interface BatchQueue {
+  baseUrl: string;
+  version: ODataVersion;
+  headers: Record<string, string>;
+  requests: PendingRequest[];
+}
+
+// Requests waiting for the next flush, grouped by service and request headers
+const queues = new Map<string, BatchQueue>();
+// Services whose $batch endpoint turned out not to exist, despite advertising (or, for v2, implying) support
+const batchDisabled = new Set<string>();
+
+// Envelope statuses meaning the service has no working $batch endpoint, as opposed to a passing failure
+const BATCH_UNSUPPORTED_STATUSES = [400, 404, 405, 501];
+
+/**
+ * The $batch request itself was answered with an error status.
+ */
+class BatchEnvelopeError extends Error {
+  constructor(public response: ODataHttpResponse) {
+    super(`$batch failed: ${response.status} ${response.statusText}`);
+    this.name = 'BatchEnvelopeError';
+  }
+}
+
+const parseBody = (text: string): any => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+/**
+ * Reads a fetch Response into an ODataHttpResponse.
+ */
+export const readHttpResponse = async (response: Response): Promise<ODataHttpResponse> => {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => { headers[key.toLowerCase()] = value; });
+  return {
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: parseBody(await response.text())
+  };
+};
+
+const fetchSingle = async (queue: BatchQueue, request: PendingRequest) => {
+  try {
+    const response = await fetch(`${queue.baseUrl}/${request.relativeUrl}`, { headers: queue.headers, signal: request.signal });
+    request.resolve(await readHttpResponse(response));
+  } catch (error) {
+    request.reject(error);
+  }
+};
+
+/**
+ * OData v4 JSON batch: { requests: [{ id, method, url }] } -> { responses: [{ id, status, body }] }
+ */
+const sendJsonBatch = async (queue: BatchQueue, signal: AbortSignal): Promise<ODataHttpResponse[]> => {
+  const response = await fetch(`${queue.baseUrl}/$batch`, {
+    method: 'POST',
+    headers: {
+      ...queue.headers,
+      'Content-Type': 'application/json',
+      'OData-Version': '4.0'
+    },
+    body: JSON.stringify({
+      requests: queue.requests.map((r, idx) => ({
+        id: String(idx),
+        method: 'GET',
+        url: r.relativeUrl,
+        headers: { Accept: 'application/json' }
+      }))
+    }),
+    signal
+  });
+  if (!response.ok) throw new BatchEnvelopeError(await readHttpResponse(response));
+
+  const json = await response.json();
+  const byId = new Map<string, any>();
+  (json.responses || []).forEach((part: any) => byId.set(String(part.id), part));
+
+  return queue.requests.map((_, idx) => {
+    const part = byId.get(String(idx));
+    if (!part) throw new Error(`$batch response is missing request ${idx}`);
+    const headers: Record<string, string> = {};
+    Object.keys(part.headers || {}).forEach(key => { headers[key.toLowerCase()] = part.headers[key]; });
+    return {
+      ok: part.status >= 200 && part.status < 300,
+      status: part.status,
+      statusText: '',
+      headers,
+      body: part.body ?? null
+    };
+  });
+};
+
+/**
+ * Splits a multipart body into its parts, dropping the preamble and closing delimiter.
+ */
+const splitMultipart = (body: string, boundary: string): string[] =>
+  body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter(part => !part.startsWith('--'))
+    .map(part => part.replace(/^\r?\n/, ''));
+
+/**
+ * Parses one application/http part of a multipart batch response.
+ */
+const parseHttpPart = (part: string): ODataHttpResponse => {
+  // MIME headers, blank line, then the embedded HTTP response
+  const [, ...httpSections] = part.split(/\r?\n\r?\n/);
+  const httpMessage = httpSections.join('\r\n\r\n');
+  const headerEnd = httpMessage.search(/\r?\n\r?\n/);
+  const head = headerEnd >= 0 ? httpMessage.substring(0, headerEnd) : httpMessage;
+  const body = headerEnd >= 0 ? httpMessage.substring(headerEnd).replace(/^\r?\n\r?\n/, '') : '';
+
+  const [statusLine, ...headerLines] = head.split(/\r?\n/);
+  const statusMatch = statusLine.match(/^HTTP\/\d\.\d\s+(\d{3})\s*(.*)$/);
+  const status = statusMatch ? Number(statusMatch[1]) : 500;
+
+  const headers: Record<string, string> = {};
+  headerLines.forEach(line => {
+    const idx = line.indexOf(':');
+    if (idx > 0) headers[line.substring(0, idx).trim().toLowerCase()] = line.substring(idx + 1).trim();
+  });
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: statusMatch ? statusMatch[2] : '',
+    headers,
+    body: parseBody(body.trim())
+  };
+};
+
+/**
+ * OData v2 multipart/mixed batch. Responses come back in request order.
+ */
+const sendMultipartBatch = async (queue: BatchQueue, signal: AbortSignal): Promise<ODataHttpResponse[]> => {
+  const boundary = `batch_${crypto.randomUUID()}`;
+  const body = queue.requests.map(r => [
+    `--${boundary}`,
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    '',
+    `GET ${r.relativeUrl} HTTP/1.1`,
+    'Accept: application/json',
+    '',
+    ''
+  ].join('\r\n')).join('') + `--${boundary}--\r\n`;
+
+  const response = await fetch(`${queue.baseUrl}/$batch`, {
+    method: 'POST',
+    headers: {
+      ...queue.headers,
+      'Content-Type': `multipart/mixed; boundary=${boundary}`,
+      'DataServiceVersion': '2.0'
+    },
+    body,
+    signal
+  });
+  if (!response.ok) throw new BatchEnvelopeError(await readHttpResponse(response));
+
+  const contentType = response.headers.get('Content-Type') || '';
+  const responseBoundary = contentType.match(/boundary=("?)([^";]+)\1/)?.[2];
+  if (!responseBoundary) throw new Error('$batch response has no multipart boundary');
+
+  const parts = splitMultipart(await response.text(), responseBoundary).map(parseHttpPart);
+  if (parts.length !== queue.requests.length) {
+    throw new Error(`$batch returned ${parts.length} responses for ${queue.requests.length} requests`);
+  }
+  return parts;
+};
+
+const flushQueue = async (key: string) => {
+  const queue = queues.get(key);
+  queues.delete(key);
+  if (!queue) return;
+  // Requests cancelled while waiting were already rejected
+  queue.requests = queue.requests.filter(request => !request.signal?.aborted);
+  if (queue.requests.length === 0) return;
+
+  // A lone request gains nothing from the batch envelope
+  if (queue.requests.length === 1) {
+    await fetchSingle(queue, queue.requests[0]);
+    return;
+  }
+
+  // The envelope is only cancelled once every request in it is; a request cancelled earlier is already
+  // rejected and its response ignored
+  const controller = new AbortController();
+  let pending = queue.requests.length;
+  queue.requests.forEach(request => request.signal?.addEventListener('abort', () => {
+    if (--pending === 0) controller.abort();
+  }, { once: true }));
+
+  try {
+    const responses = queue.version === '2.0'
+      ? await sendMultipartBatch(queue, controller.signal)
+      : await sendJsonBatch(queue, controller.signal);
+    queue.requests.forEach((request, idx) => request.resolve(responses[idx]));
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    const status = error instanceof BatchEnvelopeError ? error.response.status : undefined;
+    if (status === 401 || status === 403) {
+      // Each caller gets the auth failure, so a 401 re-authenticates and retries like a single request's
+      queue.requests.forEach(request => request.resolve((error as BatchEnvelopeError).response));
+      return;
+    }
+    if (status !== undefined && BATCH_UNSUPPORTED_STATUSES.includes(status)) {
+      // The service's $batch doesn't work after all: stop batching
+      batchDisabled.add(queue.baseUrl);
+    }
+    // Otherwise (a network error, a server error) only this flush is sent individually
+    console.warn(`Batch request to ${queue.baseUrl} failed, falling back to individual requests`, error);
+    await Promise.all(queue.requests.filter(request => !request.signal?.aborted).map(request => fetchSingle(queue, request)));
+  }
+};
+
+/**
+ * Queues a GET request to be sent with the other requests issued in the same tick as one $batch.
+ * Services without batch support (v4 ones that don't advertise it, or any whose $batch failed before) get an individual request.
+ *
+ * @param baseUrl Service root without trailing slash
+ * @param relativeUrl Resource path relative to the service root, e.g. "Orders?$top=10"
+ * @param signal Rejects the request when aborted. A request still waiting in the queue is dropped from the batch.
+ */
+export const enqueueBatchRequest = (
+  baseUrl: string,
+  relativeUrl: string,
+  headers: Record<string, string>,
+  version: ODataVersion,
+  batchSupported: boolean,
+  signal?: AbortSignal
+): Promise<ODataHttpResponse> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const request: PendingRequest = { relativeUrl: relativeUrl.replace(/^\//, ''), signal, resolve, reject };
+    // Settles the caller right away; a batch already in flight just has its response ignored
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+
+    if (!batchSupported || batchDisabled.has(baseUrl)) {
+      fetchSingle({ baseUrl, version, headers, requests: [] }, request);
+      return;
+    }
+
+    const key = `${baseUrl}|${JSON.stringify(headers)}`;
+    let queue = queues.get(key);
+    if (!queue) {
+      queue = { baseUrl, version, headers, requests: [] };
+      queues.set(key, queue);
+      // All widgets of one render commit their effects before this timer fires
+      setTimeout(() => flushQueue(key), 0);
+    }
+    queue.requests.push(request);
+  });
+};
@@ -0,0 +1,71 @@
+import { ODataHttpResponse } from './odataBatch';
+
+/**
+ * A failed OData request, keeping what the service said about the failure.
+ * status is 0 when the request never reached the service (network / CORS).
+ */
+export class ODataError extends Error {
+  status: number;
+  code?: string;
+  url: string;
+  target?: string;
+  details?: { code?: string; message?: string; target?: string }[];
+  innerError?: any;
+
+  constructor(message: string, status: number, url: string, extra: Partial<Pick<ODataError, 'code' | 'target' | 'details' | 'innerError'>> = {}) {
+    super(message);
+    this.name = 'ODataError';
+    this.status = status;
+    this.url = url;
+    this.code = extra.code;
+    this.target = extra.target;
+    this.details = extra.details;
+    this.innerError = extra.innerError;
+  }
+}
+
+/**
+ * Builds an ODataError from an error response body. Understands the v4 JSON format
+ * ({ error: { code, message, details, innererror } }), the v2 variant with
+ * message: { lang, value }, and the XML <error><code/><message/></error> format.
+ */
+export const createODataError = (response: ODataHttpResponse, url: string): ODataError => {
+  const body = response.body;
+  const fallbackMessage = response.statusText || `HTTP ${response.status}`;
+
+  if (body && typeof body === 'object' && body.error) {
+    const err = body.error;
+    const message = typeof err.message === 'string' ? err.message : (err.message?.value || fallbackMessage);
+    return new ODataError(message, response.status, url, {
+      code: err.code ? String(err.code) : undefined,
+      target: err.target,
+      details: Array.isArray(err.details) ? err.details : undefined,
+      innerError: err.innererror
+    });
+  }
+
+  if (typeof body === 'string' && body.includes('<error')) {
+    const code = body.match(/<(?:\w+:)?code>([^<]*)</)?.[1];
+    const message = body.match(/<(?:\w+:)?message[^>]*>([^<]*)</)?.[1];
+    return new ODataError(message || fallbackMessage, response.status, url, { code });
+  }
+
+  return new ODataError(fallbackMessage, response.status, url);
+};
+
+/**
+ * Plain-text report of an error for copying into a ticket or chat.
+ */
+export const describeError = (error: Error): string => {
+  if (!(error instanceof ODataError)) return error.message;
+  const lines = [
+    `Status: ${error.status || 'Network error'}`,
+    error.code ? `Code: ${error.code}` : '',
+    `Message: ${error.message}`,
+    error.target ? `Target: ${error.target}` : '',
+    `URL: ${error.url}`,
+    ...(error.details || []).map(d => `Detail: ${[d.code, d.message, d.target].filter(Boolean).join(' | ')}`),
+    error.innerError ? `Inner error: ${JSON.stringify(error.innerError, null, 2)}` : ''
+  ];
+  return lines.filter(Boolean).join('\n');
+};
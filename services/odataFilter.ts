@@ -0,0 +1,440 @@
+import { ODataFilterExpression, ODataVersion } from '../types';
+
+/**
+ * Thrown when a $filter (or other query option) can't be parsed.
+ */
+export class ODataSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ODataSyntaxError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'identifier' | 'literal' | 'open' | 'close' | 'comma' | 'colon' | 'slash' | 'minus' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+  literal?: Extract<ODataFilterExpression, { kind: 'literal' }>;
+}
+
+// Typed literal prefixes: v2 datetime'...', guid'...' and friends, v4 duration'...', binary'...'
+const PREFIXED_LITERAL_TYPES: Record<string, string> = {
+  datetime: 'Edm.DateTime',
+  datetimeoffset: 'Edm.DateTimeOffset',
+  guid: 'Edm.Guid',
+  time: 'Edm.Time',
+  duration: 'Edm.Duration',
+  binary: 'Edm.Binary',
+  x: 'Edm.Binary'
+};
+
+// Numeric suffixes used by v2 (and tolerated by many v4 services)
+const NUMBER_SUFFIX_TYPES: Record<string, string> = {
+  m: 'Edm.Decimal',
+  l: 'Edm.Int64',
+  d: 'Edm.Double',
+  f: 'Edm.Single'
+};
+
+const GUID_PATTERN = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}/;
+const DATE_TIME_OFFSET_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?([eE][+-]?\d+)?[mMlLdDfF]?(?![\w.])/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$@][\w.$@]*/;
+
+const readQuoted = (input: string, start: number): { value: string; end: number } => {
+  let value = '';
+  let i = start + 1;
+  while (i < input.length) {
+    if (input[i] === "'") {
+      if (input[i + 1] === "'") {
+        value += "'";
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += input[i++];
+  }
+  throw new ODataSyntaxError('Unterminated string literal', start);
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (type: TokenType, text: string, position: number, literal?: Token['literal']) =>
+    tokens.push({ type, text, position, literal });
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    const single: Record<string, TokenType> = { '(': 'open', ')': 'close', ',': 'comma', ':': 'colon', '/': 'slash', '-': 'minus' };
+    if (single[ch]) {
+      push(single[ch], ch, i);
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const { value, end } = readQuoted(input, i);
+      push('literal', input.substring(i, end), i, { kind: 'literal', value });
+      i = end;
+      continue;
+    }
+
+    const rest = input.substring(i);
+    const guid = rest.match(GUID_PATTERN);
+    if (guid) {
+      push('literal', guid[0], i, { kind: 'literal', value: guid[0], type: 'Edm.Guid' });
+      i += guid[0].length;
+      continue;
+    }
+    const dateTime = rest.match(DATE_TIME_OFFSET_PATTERN);
+    if (dateTime) {
+      push('literal', dateTime[0], i, { kind: 'literal', value: dateTime[0], type: 'Edm.DateTimeOffset' });
+      i += dateTime[0].length;
+      continue;
+    }
+    const date = rest.match(DATE_PATTERN);
+    if (date) {
+      push('literal', date[0], i, { kind: 'literal', value: date[0], type: 'Edm.Date' });
+      i += date[0].length;
+      continue;
+    }
+    const number = rest.match(NUMBER_PATTERN);
+    if (number) {
+      const text = number[0];
+      const suffix = text.slice(-1).toLowerCase();
+      const type = NUMBER_SUFFIX_TYPES[suffix] && !/\d/.test(suffix) ? NUMBER_SUFFIX_TYPES[suffix] : undefined;
+      const value = Number(type ? text.slice(0, -1) : text);
+      push('literal', text, i, type ? { kind: 'literal', value, type } : { kind: 'literal', value });
+      i += text.length;
+      continue;
+    }
+
+    const identifier = rest.match(IDENTIFIER_PATTERN);
+    if (identifier) {
+      const name = identifier[0];
+      const end = i + name.length;
+      // Typed literal: prefix'...' or Namespace.EnumType'Member'
+      if (input[end] === "'") {
+        const { value, end: literalEnd } = readQuoted(input, end);
+        const prefixType = PREFIXED_LITERAL_TYPES[name.toLowerCase()];
+        if (!prefixType && !name.includes('.')) {
+          throw new ODataSyntaxError(`Unknown literal prefix "${name}"`, i);
+        }
+        push('literal', input.substring(i, literalEnd), i, { kind: 'literal', value, type: prefixType || name });
+        i = literalEnd;
+        continue;
+      }
+      if (name === 'true' || name === 'false') {
+        push('literal', name, i, { kind: 'literal', value: name === 'true' });
+      } else if (name === 'null') {
+        push('literal', name, i, { kind: 'literal', value: null });
+      } else {
+        push('identifier', name, i);
+      }
+      i = end;
+      continue;
+    }
+
+    throw new ODataSyntaxError(`Unexpected character "${ch}"`, i);
+  }
+
+  push('end', '', input.length);
+  return tokens;
+};
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'has', 'in'];
+const ADDITIVE_OPERATORS = ['add', 'sub'];
+const MULTIPLICATIVE_OPERATORS = ['mul', 'div', 'divby', 'mod'];
+
+/**
+ * Parses a $filter expression into an expression tree.
+ * Precedence follows the OData spec: or < and < comparison < additive < multiplicative < unary (not, -).
+ */
+export const parseFilter = (input: string): ODataFilterExpression => {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isKeyword = (token: Token, keywords: string[]) => token.type === 'identifier' && keywords.includes(token.text);
+  const expect = (type: TokenType, description: string): Token => {
+    const token = next();
+    if (token.type !== type) {
+      throw new ODataSyntaxError(`Expected ${description} but found "${token.text || 'end of expression'}"`, token.position);
+    }
+    return token;
+  };
+
+  const parseBinaryLevel = (
+    operators: string[],
+    parseOperand: () => ODataFilterExpression
+  ): ODataFilterExpression => {
+    let left = parseOperand();
+    while (isKeyword(peek(), operators)) {
+      const operator = next().text as Extract<ODataFilterExpression, { kind: 'binary' }>['operator'];
+      left = { kind: 'binary', operator, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  const parseOr = (): ODataFilterExpression => parseBinaryLevel(['or'], parseAnd);
+  const parseAnd = (): ODataFilterExpression => parseBinaryLevel(['and'], parseComparison);
+
+  const parseComparison = (): ODataFilterExpression => {
+    const left = parseAdditive();
+    if (!isKeyword(peek(), COMPARISON_OPERATORS)) return left;
+    const operator = next().text as Extract<ODataFilterExpression, { kind: 'binary' }>['operator'];
+    if (operator === 'in') {
+      return { kind: 'binary', operator, left, right: parseList() };
+    }
+    return { kind: 'binary', operator, left, right: parseAdditive() };
+  };
+
+  const parseAdditive = (): ODataFilterExpression => parseBinaryLevel(ADDITIVE_OPERATORS, parseMultiplicative);
+  const parseMultiplicative = (): ODataFilterExpression => parseBinaryLevel(MULTIPLICATIVE_OPERATORS, parseUnary);
+
+  const parseUnary = (): ODataFilterExpression => {
+    if (isKeyword(peek(), ['not'])) {
+      next();
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (peek().type === 'minus') {
+      next();
+      const operand = parseUnary();
+      // Fold "-5" back into a literal
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { ...operand, value: -operand.value };
+      }
+      return { kind: 'negate', operand };
+    }
+    return parsePrimary();
+  };
+
+  const parseList = (): ODataFilterExpression => {
+    expect('open', '"("');
+    const items: ODataFilterExpression[] = [];
+    if (peek().type !== 'close') {
+      items.push(parseOr());
+      while (peek().type === 'comma') {
+        next();
+        items.push(parseOr());
+      }
+    }
+    expect('close', '")"');
+    return { kind: 'list', items };
+  };
+
+  const parseArguments = (): ODataFilterExpression[] => {
+    const list = parseList();
+    return list.kind === 'list' ? list.items : [];
+  };
+
+  const parsePrimary = (): ODataFilterExpression => {
+    const token = peek();
+
+    if (token.type === 'literal') {
+      next();
+      return token.literal!;
+    }
+
+    if (token.type === 'open') {
+      next();
+      const inner = parseOr();
+      expect('close', '")"');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      next();
+      // Function call: name(args)
+      if (peek().type === 'open') {
+        return { kind: 'function', name: token.text, args: parseArguments() };
+      }
+
+      const segments = [token.text];
+      while (peek().type === 'slash') {
+        next();
+        const segment = expect('identifier', 'a property name');
+        // Lambda: Collection/any(v: predicate) or Collection/any()
+        if ((segment.text === 'any' || segment.text === 'all') && peek().type === 'open') {
+          next();
+          const operator = segment.text;
+          const path = segments.join('/');
+          if (peek().type === 'close') {
+            next();
+            return { kind: 'lambda', operator, path };
+          }
+          const variable = expect('identifier', 'a lambda variable').text;
+          expect('colon', '":"');
+          const predicate = parseOr();
+          expect('close', '")"');
+          return { kind: 'lambda', operator, path, variable, predicate };
+        }
+        segments.push(segment.text);
+      }
+      return { kind: 'property', path: segments.join('/') };
+    }
+
+    throw new ODataSyntaxError(`Unexpected "${token.text || 'end of expression'}"`, token.position);
+  };
+
+  const expression = parseOr();
+  if (peek().type !== 'end') {
+    throw new ODataSyntaxError(`Unexpected "${peek().text}"`, peek().position);
+  }
+  return expression;
+};
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Writes a literal in the URL syntax of the given protocol version (also used for key predicates).
+ */
+export const formatLiteral = (literal: Extract<ODataFilterExpression, { kind: 'literal' }>, version: ODataVersion = '4.0'): string => {
+  const { value, type } = literal;
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return String(value);
+
+  const isV2 = version === '2.0';
+  switch (type) {
+    case undefined:
+      return typeof value === 'number' ? String(value) : quote(value);
+    case 'Edm.Decimal':
+    case 'Edm.Int64':
+    case 'Edm.Double':
+    case 'Edm.Single': {
+      // v4 dropped the numeric suffixes
+      if (!isV2) return String(value);
+      const suffix = Object.keys(NUMBER_SUFFIX_TYPES).find(s => NUMBER_SUFFIX_TYPES[s] === type)!;
+      return `${value}${suffix.toUpperCase()}`;
+    }
+    case 'Edm.Guid':
+      return isV2 ? `guid${quote(String(value))}` : String(value);
+    case 'Edm.DateTimeOffset':
+      return isV2 ? `datetimeoffset${quote(String(value))}` : String(value);
+    case 'Edm.DateTime':
+      // v4 has no DateTime; its values are written as DateTimeOffset, which needs an offset
+      if (isV2) return `datetime${quote(String(value))}`;
+      return /(Z|[+-]\d{2}:\d{2})$/.test(String(value)) ? String(value) : `${value}Z`;
+    case 'Edm.Date':
+      return isV2 ? `datetime${quote(`${value}T00:00:00`)}` : String(value);
+    case 'Edm.Time':
+    case 'Edm.Duration':
+      return `${isV2 ? 'time' : 'duration'}${quote(String(value))}`;
+    case 'Edm.Binary':
+      return `binary${quote(String(value))}`;
+    default:
+      // Enum member: Namespace.EnumType'Member'
+      return `${type}${quote(String(value))}`;
+  }
+};
+
+const PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  eq: 3, ne: 3, gt: 3, ge: 3, lt: 3, le: 3, has: 3, in: 3,
+  add: 4, sub: 4,
+  mul: 5, div: 5, divby: 5, mod: 5,
+  not: 6,
+  negate: 6
+};
+
+const precedenceOf = (expression: ODataFilterExpression): number => {
+  if (expression.kind === 'binary') return PRECEDENCE[expression.operator];
+  if (expression.kind === 'not' || expression.kind === 'negate') return PRECEDENCE[expression.kind];
+  return 7;
+};
+
+/**
+ * Writes an expression tree back as $filter text for the given protocol version.
+ * contains()/substringof() are converted to whichever the version understands.
+ */
+export const serializeFilter = (expression: ODataFilterExpression, version: ODataVersion = '4.0'): string => {
+  const write = (node: ODataFilterExpression, minPrecedence: number): string => {
+    const text = writeNode(node);
+    return precedenceOf(node) < minPrecedence ? `(${text})` : text;
+  };
+
+  const writeNode = (node: ODataFilterExpression): string => {
+    switch (node.kind) {
+      case 'literal':
+        return formatLiteral(node, version);
+      case 'property':
+        return node.path;
+      case 'not':
+        return `not ${write(node.operand, PRECEDENCE.not)}`;
+      case 'negate':
+        return `-${write(node.operand, PRECEDENCE.negate)}`;
+      case 'list':
+        return `(${node.items.map(item => write(item, 0)).join(',')})`;
+      case 'lambda':
+        return node.variable && node.predicate
+          ? `${node.path}/${node.operator}(${node.variable}:${write(node.predicate, 0)})`
+          : `${node.path}/${node.operator}()`;
+      case 'function': {
+        // contains(Field,'x') (v4) <-> substringof('x',Field) (v2)
+        if (version === '2.0' && node.name === 'contains' && node.args.length === 2) {
+          return `substringof(${write(node.args[1], 0)},${write(node.args[0], 0)})`;
+        }
+        if (version !== '2.0' && node.name === 'substringof' && node.args.length === 2) {
+          return `contains(${write(node.args[1], 0)},${write(node.args[0], 0)})`;
+        }
+        return `${node.name}(${node.args.map(arg => write(arg, 0)).join(',')})`;
+      }
+      case 'binary': {
+        const precedence = PRECEDENCE[node.operator];
+        // Left-associative: only the right operand needs parentheses at equal precedence
+        const rightMin = node.operator === 'and' || node.operator === 'or' ? precedence : precedence + 1;
+        return `${write(node.left, precedence)} ${node.operator} ${write(node.right, rightMin)}`;
+      }
+    }
+  };
+
+  return write(expression, 0);
+};
+
+/**
+ * Calls visit for every property path in the expression, with the lambda variables in scope.
+ */
+export const forEachPropertyPath = (
+  expression: ODataFilterExpression,
+  visit: (path: string, scope: Record<string, string>) => void,
+  scope: Record<string, string> = {}
+): void => {
+  switch (expression.kind) {
+    case 'property':
+      visit(expression.path, scope);
+      break;
+    case 'binary':
+      forEachPropertyPath(expression.left, visit, scope);
+      forEachPropertyPath(expression.right, visit, scope);
+      break;
+    case 'not':
+    case 'negate':
+      forEachPropertyPath(expression.operand, visit, scope);
+      break;
+    case 'function':
+      expression.args.forEach(arg => forEachPropertyPath(arg, visit, scope));
+      break;
+    case 'list':
+      expression.items.forEach(item => forEachPropertyPath(item, visit, scope));
+      break;
+    case 'lambda':
+      visit(expression.path, scope);
+      if (expression.variable && expression.predicate) {
+        // Paths under the variable are relative to the collection's item type
+        forEachPropertyPath(expression.predicate, visit, { ...scope, [expression.variable]: expression.path });
+      }
+      break;
+  }
+};
@@ -0,0 +1,395 @@
+import {
+  DashboardWidgetConfig,
+  DatabaseSchema,
+  ODataExpandItem,
+  ODataFunctionCall,
+  ODataLiteralExpression,
+  ODataOrderByItem,
+  ODataQuery,
+  ODataQueryClauses,
+  ODataVersion,
+  SchemaField,
+  SchemaNavigationProperty
+} from '../types';
+import { ODataSyntaxError, forEachPropertyPath, formatLiteral, parseFilter, serializeFilter } from './odataFilter';
+
+/**
+ * Splits on a separator that is outside parentheses and quoted strings.
+ */
+export const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuote = false;
+  let current = '';
+  for (const ch of text) {
+    if (ch === "'") inQuote = !inQuote;
+    else if (!inQuote && ch === '(') depth++;
+    else if (!inQuote && ch === ')') depth--;
+    if (ch === separator && depth === 0 && !inQuote) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+/**
+ * Index of the parenthesis closing the one at `open`, skipping quoted strings. -1 when unbalanced.
+ */
+const findClosingParen = (text: string, open: number): number => {
+  let depth = 0;
+  let inQuote = false;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") inQuote = !inQuote;
+    else if (!inQuote && ch === '(') depth++;
+    else if (!inQuote && ch === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    // Stray "%" in a hand-written query: keep the text as is
+    return value;
+  }
+};
+
+// Characters that would otherwise end or change the meaning of a query option value
+const encodeValue = (value: string): string => value.replace(/[%&#+]/g, ch => encodeURIComponent(ch));
+
+const parseInteger = (option: string, value: string): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new ODataSyntaxError(`${option} must be a non-negative integer, got "${value}"`, 0);
+  return n;
+};
+
+export const parseOrderBy = (value: string): ODataOrderByItem[] =>
+  splitTopLevel(value, ',').map(item => {
+    const match = item.match(/^(.*?)(?:\s+(asc|desc))?$/i)!;
+    return { property: match[1].trim(), direction: match[2]?.toLowerCase() === 'desc' ? 'desc' : 'asc' };
+  });
+
+const parseExpand = (value: string): ODataExpandItem[] =>
+  splitTopLevel(value, ',').map(item => {
+    const open = item.indexOf('(');
+    if (open < 0) return { property: item };
+    if (!item.endsWith(')')) throw new ODataSyntaxError(`Malformed $expand item "${item}"`, 0);
+    const options = splitTopLevel(item.substring(open + 1, item.length - 1), ';').map(splitOption);
+    const { clauses } = parseClauses(options);
+    return { property: item.substring(0, open).trim(), ...clauses };
+  });
+
+const splitOption = (option: string): [string, string] => {
+  const eq = option.indexOf('=');
+  return eq < 0 ? [decode(option), ''] : [decode(option.substring(0, eq)), decode(option.substring(eq + 1))];
+};
+
+/**
+ * Reads the options shared by queries and $expand items. Anything else is returned in `rest`.
+ */
+const parseClauses = (options: [string, string][]): { clauses: ODataQueryClauses; rest: [string, string][] } => {
+  const clauses: ODataQueryClauses = {};
+  const rest: [string, string][] = [];
+  options.forEach(([key, value]) => {
+    switch (key.toLowerCase()) {
+      case '$select': clauses.select = splitTopLevel(value, ','); break;
+      case '$filter': clauses.filter = parseFilter(value); break;
+      case '$orderby': clauses.orderby = parseOrderBy(value); break;
+      case '$top': clauses.top = parseInteger('$top', value); break;
+      case '$skip': clauses.skip = parseInteger('$skip', value); break;
+      case '$expand': clauses.expand = parseExpand(value); break;
+      case '$count': clauses.count = value.toLowerCase() === 'true'; break;
+      case '$inlinecount': clauses.count = value.toLowerCase() === 'allpages'; break;
+      default: rest.push([key, value]);
+    }
+  });
+  return { clauses, rest };
+};
+
+/**
+ * Reads a function parameter value. "@alias" values are looked up in (and removed from) the custom options.
+ */
+const parseParameterValue = (name: string, value: string, query: ODataQuery): ODataLiteralExpression => {
+  let text = value;
+  if (text.startsWith('@') && query.customOptions?.[text] !== undefined) {
+    const { [text]: aliased, ...rest } = query.customOptions;
+    query.customOptions = Object.keys(rest).length ? rest : undefined;
+    text = aliased;
+  }
+  const expr = parseFilter(text);
+  if (expr.kind !== 'literal') throw new ODataSyntaxError(`Parameter "${name}" must be a literal value, got "${text}"`, 0);
+  return expr;
+};
+
+// "(year=2024,region='North')" -> parameters
+const parseParameterList = (text: string, query: ODataQuery): Record<string, ODataLiteralExpression> => {
+  const parameters: Record<string, ODataLiteralExpression> = {};
+  splitTopLevel(text, ',').forEach(item => {
+    const [name, value] = splitOption(item);
+    parameters[name.trim()] = parseParameterValue(name.trim(), value.trim(), query);
+  });
+  return parameters;
+};
+
+/**
+ * Recognises a function call at the end of the resource path. Bound calls ("/NS.Func(...)") are
+ * unambiguous; a function import looks like an entity set with a key predicate, so it needs the schema.
+ */
+const readFunctionCall = (query: ODataQuery, schema?: DatabaseSchema) => {
+  const path = query.path || '';
+  const bound = path.match(/^(.*)\/(\w+(?:\.\w+)+)\((.*)\)$/);
+  if (bound) {
+    query.function = { name: bound[2], parameters: parseParameterList(bound[3], query) };
+    query.path = bound[1] || undefined;
+    return;
+  }
+
+  const operation = schema?.operations?.find(op => !op.boundTo && op.name === query.entitySet);
+  if (!operation) return;
+  const call: ODataFunctionCall = { parameters: {} };
+  if (path.startsWith('(')) {
+    const close = findClosingParen(path, 0);
+    if (close < 0) throw new ODataSyntaxError(`Unbalanced parentheses in "${query.entitySet}${path}"`, 0);
+    call.parameters = parseParameterList(path.substring(1, close), query);
+    query.path = path.substring(close + 1) || undefined;
+  } else {
+    // v2 passes function import parameters as query options
+    operation.parameters.forEach(p => {
+      const value = query.customOptions?.[p.name];
+      if (value === undefined) return;
+      const { [p.name]: _, ...rest } = query.customOptions!;
+      query.customOptions = Object.keys(rest).length ? rest : undefined;
+      call.parameters[p.name] = parseParameterValue(p.name, value, query);
+    });
+  }
+  query.function = call;
+};
+
+/**
+ * Parses a query string such as "/Orders?$filter=Freight gt 10&$top=5" into the structured model.
+ * With a schema, calls to function imports ("/TopCustomers(year=2024)") are recognised as well.
+ * Throws ODataSyntaxError when an option (typically $filter) is malformed.
+ */
+export const parseODataQuery = (text: string, schema?: DatabaseSchema): ODataQuery => {
+  const trimmed = text.trim().replace(/^\//, '');
+  const questionMark = trimmed.indexOf('?');
+  const resourcePath = questionMark < 0 ? trimmed : trimmed.substring(0, questionMark);
+  const queryString = questionMark < 0 ? '' : trimmed.substring(questionMark + 1);
+
+  const entitySet = resourcePath.match(/^[^/(]*/)![0];
+  if (!entitySet) throw new ODataSyntaxError(`Query "${text}" does not start with an entity set`, 0);
+
+  const { clauses, rest } = parseClauses(splitTopLevel(queryString, '&').map(splitOption));
+  const query: ODataQuery = { entitySet, ...clauses };
+  if (resourcePath.length > entitySet.length) query.path = resourcePath.substring(entitySet.length);
+
+  rest.forEach(([key, value]) => {
+    if (key.toLowerCase() === '$apply') query.apply = value;
+    else if (key.toLowerCase() === '$search') query.search = value;
+    else query.customOptions = { ...query.customOptions, [key]: value };
+  });
+  readFunctionCall(query, schema);
+  return query;
+};
+
+const serializeOrderBy = (orderby: ODataOrderByItem[]) =>
+  orderby.map(o => o.direction === 'desc' ? `${o.property} desc` : o.property).join(',');
+
+/**
+ * v2 has no nested options: expands are written as navigation paths ("Orders/Items") and
+ * nested $select entries move to the top-level $select as "Nav/Property".
+ */
+const flattenV2Expand = (items: ODataExpandItem[]): { expand: string[]; select: string[] } => {
+  const expand: string[] = [];
+  const select: string[] = [];
+  // Expanded entities without their own $select keep all their properties
+  const wildcards: string[] = [];
+  const collect = (item: ODataExpandItem, prefix: string) => {
+    const path = prefix ? `${prefix}/${item.property}` : item.property;
+    if (item.select?.length) item.select.forEach(property => select.push(`${path}/${property}`));
+    else wildcards.push(`${path}/*`);
+    if (item.expand?.length) item.expand.forEach(child => collect(child, path));
+    else expand.push(path);
+  };
+  items.forEach(item => collect(item, ''));
+  return { expand, select: select.length ? [...select, ...wildcards] : [] };
+};
+
+// v4 nests options inside $expand
+const serializeExpand = (items: ODataExpandItem[], version: ODataVersion): string => {
+  if (version === '2.0') return flattenV2Expand(items).expand.join(',');
+  return items.map(item => {
+    const nested = serializeClauses(item, version);
+    return nested.length ? `${item.property}(${nested.join(';')})` : item.property;
+  }).join(',');
+};
+
+const serializeClauses = (clauses: ODataQueryClauses, version: ODataVersion): string[] => {
+  const options: string[] = [];
+  if (clauses.filter) options.push(`$filter=${encodeValue(serializeFilter(clauses.filter, version))}`);
+  let select = clauses.select || [];
+  if (version === '2.0' && clauses.expand?.length) {
+    const expandSelect = flattenV2Expand(clauses.expand).select;
+    // Without a top-level $select the entity's own properties must stay selected
+    if (expandSelect.length) select = [...(select.length ? select : ['*']), ...expandSelect];
+  }
+  if (select.length) options.push(`$select=${select.join(',')}`);
+  if (clauses.expand?.length) options.push(`$expand=${serializeExpand(clauses.expand, version)}`);
+  if (clauses.orderby?.length) options.push(`$orderby=${serializeOrderBy(clauses.orderby)}`);
+  if (clauses.top !== undefined) options.push(`$top=${clauses.top}`);
+  if (clauses.skip !== undefined) options.push(`$skip=${clauses.skip}`);
+  if (clauses.count) options.push(version === '2.0' ? '$inlinecount=allpages' : '$count=true');
+  return options;
+};
+
+/**
+ * v4 writes parameters in the path ("/TopCustomers(year=2024)"); v2 passes them as query options.
+ */
+const serializeFunctionCall = (call: ODataFunctionCall, version: ODataVersion): { path: string; options: string[] } => {
+  const parameters = Object.entries(call.parameters).map(([name, literal]) => `${name}=${encodeValue(formatLiteral(literal, version))}`);
+  const name = call.name ? `/${call.name}` : '';
+  return version === '2.0'
+    ? { path: name, options: parameters }
+    : { path: `${name}(${parameters.join(',')})`, options: [] };
+};
+
+/**
+ * Writes the model as a query path ("/Orders?...") in the syntax of the given protocol version.
+ */
+export const serializeODataQuery = (query: ODataQuery, version: ODataVersion = '4.0'): string => {
+  const call = query.function ? serializeFunctionCall(query.function, version) : { path: '', options: [] };
+  const options: string[] = [...call.options];
+  if (query.apply) options.push(`$apply=${encodeValue(query.apply)}`);
+  options.push(...serializeClauses(query, version));
+  if (query.search) options.push(`$search=${encodeValue(query.search)}`);
+  Object.entries(query.customOptions || {}).forEach(([key, value]) => {
+    options.push(value ? `${key}=${encodeValue(value)}` : key);
+  });
+  const path = `/${query.entitySet}${query.path || ''}${call.path}`;
+  return options.length ? `${path}?${options.join('&')}` : path;
+};
+
+interface StructuredTypeInfo {
+  fields: SchemaField[];
+  navigationProperties: SchemaNavigationProperty[];
+}
+
+/**
+ * Checks a query against the schema: the entity set and every property, navigation
+ * and expand path it references must exist. A called function must exist, be side-effect free
+ * and get its required parameters. Returns a list of problems (empty when valid).
+ */
+export const validateODataQuery = (query: ODataQuery, schema: DatabaseSchema): string[] => {
+  const entity = schema.entities.find(e => e.name === query.entitySet);
+  if (!entity && !query.function) return [`הישות "${query.entitySet}" לא קיימת בסכמה`];
+
+  const problems: string[] = [];
+  const typeByName = (typeName: string): StructuredTypeInfo | undefined => {
+    const name = typeName.replace(/^Collection\((.*)\)$/, '$1');
+    const entityType = schema.entities.find(e => e.entityType === name);
+    if (entityType) return { fields: entityType.fields, navigationProperties: entityType.navigationProperties || [] };
+    const complexType = schema.complexTypes?.find(ct => ct.name === name);
+    return complexType ? { fields: complexType.fields, navigationProperties: [] } : undefined;
+  };
+
+  let root: StructuredTypeInfo | undefined = entity && { fields: entity.fields, navigationProperties: entity.navigationProperties || [] };
+  if (query.function) {
+    const call = query.function;
+    const name = call.name || query.entitySet;
+    if (call.name && !entity) return [`הישות "${query.entitySet}" לא קיימת בסכמה`];
+    const operation = call.name
+      ? schema.operations?.find(op => op.name === call.name && op.boundTo?.replace(/^Collection\((.*)\)$/, '$1') === entity!.entityType)
+      : schema.operations?.find(op => !op.boundTo && op.name === query.entitySet);
+    if (!operation) return [`הפונקציה "${name}" לא קיימת בסכמה`];
+    if (operation.kind === 'action') return [`"${name}" היא פעולה (action) שמשנה נתונים, ולא ניתן להריץ אותה מווידג'ט`];
+
+    operation.parameters
+      .filter(p => p.nullable === false && !(p.name in call.parameters))
+      .forEach(p => problems.push(`חסר פרמטר חובה "${p.name}" לפונקציה ${name}`));
+    Object.keys(call.parameters)
+      .filter(key => !operation.parameters.some(p => p.name === key))
+      .forEach(key => problems.push(`הפרמטר "${key}" לא קיים בפונקציה ${name}`));
+
+    // Primitive results have no properties to check
+    root = operation.returnType ? typeByName(operation.returnType) : undefined;
+    if (!root) return problems;
+  }
+
+  // Follows a path from a type. Returns the type it ends on (undefined when unknown) or an error.
+  const resolve = (start: StructuredTypeInfo, segments: string[], fullPath: string): { type?: StructuredTypeInfo; error?: string } => {
+    let current: StructuredTypeInfo | undefined = start;
+    for (const segment of segments) {
+      // $count, $it, type casts and instance annotations can't be checked against the schema here
+      if (!current || segment.startsWith('$') || segment.startsWith('@') || segment.includes('.')) return {};
+      const field: SchemaField | undefined = current.fields.find(f => f.name === segment);
+      const nav: SchemaNavigationProperty | undefined = current.navigationProperties.find(n => n.name === segment);
+      if (field) current = typeByName(field.type);
+      else if (nav) current = typeByName(nav.targetType);
+      else return { error: `השדה "${fullPath}" לא קיים בסכמה של ${query.entitySet}` };
+    }
+    return { type: current };
+  };
+
+
+  // Lambda variables stand for an item of the collection they range over
+  const resolveScoped = (base: StructuredTypeInfo, path: string, scope: Record<string, string>): { type?: StructuredTypeInfo; error?: string } => {
+    const [first, ...rest] = path.split('/');
+    if (!(first in scope)) return resolve(base, path.split('/'), path);
+    const { [first]: collection, ...outer } = scope;
+    const item = resolveScoped(base, collection, outer).type;
+    return item ? resolve(item, rest, path) : {};
+  };
+
+  const checkPath = (base: StructuredTypeInfo, path: string, scope: Record<string, string> = {}) => {
+    const { error } = resolveScoped(base, path, scope);
+    if (error && !problems.includes(error)) problems.push(error);
+  };
+
+  const checkClauses = (clauses: ODataQueryClauses, base: StructuredTypeInfo, skipComputed: boolean) => {
+    if (!skipComputed) {
+      clauses.select?.filter(s => s !== '*').forEach(path => checkPath(base, path));
+      clauses.orderby?.forEach(o => checkPath(base, o.property));
+      if (clauses.filter) forEachPropertyPath(clauses.filter, (path, scope) => checkPath(base, path, scope));
+    }
+    clauses.expand?.forEach(item => {
+      const { type, error } = resolve(base, item.property.split('/'), item.property);
+      if (error) problems.push(error);
+      else if (type) checkClauses(item, type, false);
+    });
+  };
+
+  // After $apply the result has the aggregate aliases instead of the entity's own properties
+  checkClauses(query, root!, !!query.apply);
+  return problems;
+};
+
+/**
+ * The widget's structured query. Configs saved before the model existed only have
+ * the odataQuery string, which is parsed on the fly; the source's schema is needed to tell
+ * function imports from entity sets. Returns null if it can't be parsed.
+ */
+export const getWidgetQuery = (config: DashboardWidgetConfig, schema?: DatabaseSchema): ODataQuery | null => {
+  if (config.query) return config.query;
+  if (!config.odataQuery) return null;
+  try {
+    return parseODataQuery(config.odataQuery, schema);
+  } catch (e) {
+    console.warn(`Could not parse widget query "${config.odataQuery}"`, e);
+    return null;
+  }
+};
+
+/**
+ * Config fields to update when a widget's query changes, keeping the string form in sync.
+ */
+export const widgetQueryUpdate = (query: ODataQuery, version: ODataVersion = '4.0'): Pick<DashboardWidgetConfig, 'query' | 'odataQuery' | 'entity'> => ({
+  query,
+  odataQuery: serializeODataQuery(query, version),
+  entity: query.entitySet
+});
@@ -1,10 +1,18 @@
-import { DatabaseSchema, SchemaEntity, SchemaField, DataPoint } from '../types';
+import { DatabaseSchema, DataPoint, ODataPagingProgress, ODataVersion, SchemaDiff, SchemaEntity } from '../types';
+import { parseMetadata } from './metadataParser';
+import { enqueueBatchRequest, readHttpResponse, ODataHttpResponse } from './odataBatch';
+import { AuthStrategy } from './authService';
+import { ODataError, createODataError } from './odataErrors';
+import { RequestOptions, DEFAULT_TIMEOUT_MS, createRequestSignal, isAbortError, isTimeoutError } from './requestControl';
+import { buildKeyPredicate } from './edmTypes';
+import { readCachedSchema, writeCachedSchema } from './schemaCache';
+import { diffSchemas, isEmptyDiff } from './schemaDiff';
 
 /**
- * Helper to construct headers with Basic Auth if credentials provided
+ * Helper to construct request headers, including whatever the auth strategy supplies
  */
-const getHeaders = (username?: string, password?: string, isMetadata = false): HeadersInit => {
-  const headers: HeadersInit = {};
+const getHeaders = async (auth?: AuthStrategy, isMetadata = false): Promise<Record<string, string>> => {
+  const headers: Record<string, string> = {};
   
   // For GET requests, Content-Type is not needed and can trigger strict CORS preflight checks.
   // We only set Accept to ensure we get the desired format.
@@ -12,152 +20,464 @@ const getHeaders = (username?: string, password?: string, isMetadata = false): H
     headers['Accept'] = 'application/json'; 
   }
 
-  if (username && password) {
-    // Basic Auth Encoding
-    const credentials = btoa(`${username}:${password}`);
-    headers['Authorization'] = `Basic ${credentials}`;
+  if (auth) {
+    Object.assign(headers, await auth.getHeaders());
   }
   return headers;
 };
 
 /**
- * Parses OData $metadata XML into a JSON schema structure.
+ * Sends a request with the current auth headers. A 401 triggers one retry
+ * after the strategy re-authenticates (e.g. an expired OAuth2 token).
  */
-const parseMetadata = (xmlText: string): DatabaseSchema => {
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(xmlText, "text/xml");
-  const entities: SchemaEntity[] = [];
+const sendWithAuthRetry = async (
+  auth: AuthStrategy | undefined,
+  isMetadata: boolean,
+  send: (headers: Record<string, string>) => Promise<ODataHttpResponse>
+): Promise<ODataHttpResponse> => {
+  const response = await send(await getHeaders(auth, isMetadata));
+  if (response.status === 401 && auth && await auth.reauthenticate()) {
+    return send(await getHeaders(auth, isMetadata));
+  }
+  return response;
+};
 
-  // 1. Map EntityType names to their Fields
-  const entityTypeMap = new Map<string, SchemaField[]>();
-  const entityTypes = xmlDoc.getElementsByTagName("EntityType");
-  
-  for (let i = 0; i < entityTypes.length; i++) {
-    const et = entityTypes[i];
-    const name = et.getAttribute("Name");
-    if (!name) continue;
+const cleanBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/$/, "");
 
-    const fields: SchemaField[] = [];
-    const properties = et.getElementsByTagName("Property");
-    
-    for (let j = 0; j < properties.length; j++) {
-      const prop = properties[j];
-      fields.push({
-        name: prop.getAttribute("Name") || "Unknown",
-        type: prop.getAttribute("Type") || "Edm.String"
-      });
-    }
-    entityTypeMap.set(name, fields);
-  }
+const timeoutError = (url: string, timeoutMs = DEFAULT_TIMEOUT_MS) =>
+  new ODataError(`השירות לא הגיב תוך ${Math.ceil(timeoutMs / 1000)} שניות.`, 0, url, { code: 'Timeout' });
 
-  // 2. Map EntitySets to EntityTypes
-  const entitySets = xmlDoc.getElementsByTagName("EntitySet");
-  
-  if (entitySets.length > 0) {
-    for (let i = 0; i < entitySets.length; i++) {
-      const es = entitySets[i];
-      const name = es.getAttribute("Name");
-      const entityTypeFull = es.getAttribute("EntityType");
-      
-      if (!name || !entityTypeFull) continue;
-
-      const entityTypeName = entityTypeFull.split('.').pop();
-      
-      if (entityTypeName && entityTypeMap.has(entityTypeName)) {
-        entities.push({
-          name: name,
-          fields: entityTypeMap.get(entityTypeName)!
-        });
-      }
-    }
-  } else {
-    entityTypeMap.forEach((fields, name) => {
-      entities.push({ name, fields });
-    });
-  }
+interface ODataServiceInfo {
+  version: ODataVersion;
+  batchSupported: boolean;
+}
 
-  return { entities };
+// Protocol details per service, recorded when its $metadata is fetched
+const services = new Map<string, ODataServiceInfo>();
+
+/**
+ * Returns the detected protocol version of a service, defaulting to v4 when unknown.
+ */
+export const getServiceVersion = (baseUrl: string): ODataVersion =>
+  services.get(cleanBaseUrl(baseUrl))?.version ?? '4.0';
+
+/**
+ * Sends a GET for a resource of the service. Requests for services that advertise
+ * $batch support are collected per tick and sent together.
+ */
+const sendODataGet = async (cleanUrl: string, url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<ODataHttpResponse> => {
+  const info = services.get(cleanUrl);
+  if (url.startsWith(`${cleanUrl}/`)) {
+    return enqueueBatchRequest(
+      cleanUrl,
+      url.substring(cleanUrl.length + 1),
+      headers,
+      info?.version ?? '4.0',
+      !!info?.batchSupported,
+      signal
+    );
+  }
+  return readHttpResponse(await fetch(url, { headers, signal }));
 };
 
+export interface ODataSchemaOptions extends RequestOptions {
+  // Called when the downloaded $metadata differs from the cached schema of the service
+  onSchemaChange?: (diff: SchemaDiff) => void;
+}
+
 /**
- * Fetches the metadata from the OData service.
+ * Fetches the metadata from the OData service. Parsed schemas are cached per service URL
+ * and revalidated with the ETag / Last-Modified of the previous response, so an unchanged
+ * document is neither downloaded nor parsed again.
  */
-export const fetchServiceSchema = async (baseUrl: string, username?: string, password?: string): Promise<DatabaseSchema> => {
-  const cleanUrl = baseUrl.trim().replace(/\/$/, "");
+export const fetchServiceSchema = async (baseUrl: string, auth?: AuthStrategy, options: ODataSchemaOptions = {}): Promise<DatabaseSchema> => {
+  const cleanUrl = cleanBaseUrl(baseUrl);
   const metadataUrl = `${cleanUrl}/$metadata`;
+  const cached = await readCachedSchema(cleanUrl);
+  const { signal, dispose } = createRequestSignal(options);
+
+  const validators: Record<string, string> = {};
+  if (cached?.etag) validators['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) validators['If-Modified-Since'] = cached.lastModified;
+
+  const send = (extraHeaders: Record<string, string>) => sendWithAuthRetry(auth, true, async headers =>
+    readHttpResponse(await fetch(metadataUrl, { headers: { ...headers, ...extraHeaders }, signal }))
+  );
 
   try {
-    const response = await fetch(metadataUrl, {
-      headers: getHeaders(username, password, true)
-    });
-    
-    if (!response.ok) {
-       if (response.status === 401 || response.status === 403) {
-         throw new Error("שגיאת הרשאה: בדוק את שם המשתמש והסיסמא.");
-       }
-       throw new Error(`Failed to fetch metadata: ${response.statusText}`);
+    let response: ODataHttpResponse;
+    try {
+      response = await send(validators);
+    } catch (error) {
+      // Conditional headers need a CORS preflight, which some services refuse; ask again without them
+      if (Object.keys(validators).length === 0 || isAbortError(error) || isTimeoutError(error)) throw error;
+      response = await send({});
     }
-    
-    const text = await response.text();
-    return parseMetadata(text);
+
+    let schema: DatabaseSchema;
+    if (response.status === 304 && cached) {
+      schema = cached.schema;
+    } else {
+      if (!response.ok) {
+         const error = createODataError(response, metadataUrl);
+         if (response.status === 401 || response.status === 403) {
+           error.message = "שגיאת הרשאה: בדוק את פרטי ההזדהות.";
+         }
+         throw error;
+      }
+
+      schema = parseMetadata(String(response.body));
+
+      // Fall back to the version response headers when the document doesn't declare one
+      if (!schema.odataVersion) {
+        const headerVersion = response.headers['odata-version'] || response.headers['dataserviceversion'];
+        schema.odataVersion = headerVersion && !headerVersion.startsWith('4') ? '2.0' : '4.0';
+      }
+
+      await writeCachedSchema({
+        url: cleanUrl,
+        schema,
+        etag: response.headers['etag'],
+        lastModified: response.headers['last-modified']
+      });
+      if (cached) {
+        const diff = diffSchemas(cached.schema, schema);
+        if (!isEmptyDiff(diff)) options.onSchemaChange?.(diff);
+      }
+    }
+
+    services.set(cleanUrl, {
+      version: schema.odataVersion,
+      batchSupported: !!schema.capabilities?.batchSupported
+    });
+    return schema;
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    if (isTimeoutError(error)) throw timeoutError(metadataUrl, options.timeoutMs);
     console.error("Metadata fetch error:", error);
     if (error.name === 'TypeError' && error.message === 'Failed to fetch') {
-      throw new Error("שגיאת תקשורת (CORS) או שהשרת לא זמין. וודא שהכתובת תקינה ושהשרת מאפשר גישה מדפדפן.");
+      throw new ODataError("שגיאת תקשורת (CORS) או שהשרת לא זמין. וודא שהכתובת תקינה ושהשרת מאפשר גישה מדפדפן.", 0, metadataUrl, { code: 'NetworkError' });
     }
+    if (error instanceof ODataError) throw error;
     throw new Error(error.message || "לא ניתן להתחבר ל-API.");
+  } finally {
+    dispose();
   }
 };
 
+/**
+ * Default row budget when following server-driven paging.
+ */
+export const DEFAULT_MAX_ROWS = 5000;
+
+export interface ODataQueryOptions extends RequestOptions {
+  // Stop following @odata.nextLink once this many rows were collected
+  maxRows?: number;
+  // Called after every page and once more when paging ends
+  onProgress?: (progress: ODataPagingProgress) => void;
+}
+
+// v2 JSON encodes dates as "/Date(1700000000000)/" or "/Date(1700000000000+0120)/"
+const V2_DATE_PATTERN = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/;
+
+const normalizeV2Value = (value: any): any => {
+  if (typeof value === 'string') {
+    const match = value.match(V2_DATE_PATTERN);
+    return match ? new Date(Number(match[1])).toISOString() : value;
+  }
+  if (Array.isArray(value)) return value.map(normalizeV2Value);
+  if (value && typeof value === 'object') {
+    // Expanded collections are wrapped as { results: [...] }
+    if (Array.isArray(value.results)) return value.results.map(normalizeV2Value);
+    return normalizeV2Row(value);
+  }
+  return value;
+};
+
+/**
+ * Converts a v2 (verbose JSON) entity to the v4 shape: drops __metadata and
+ * unexpanded __deferred links, converts /Date(...)/ literals to ISO strings.
+ */
+const normalizeV2Row = (row: any): DataPoint => {
+  const result: DataPoint = {};
+  Object.keys(row).forEach(key => {
+    const value = row[key];
+    if (key === '__metadata') {
+      if (value?.etag) result['@odata.etag'] = value.etag;
+      return;
+    }
+    if (value && typeof value === 'object' && '__deferred' in value) return;
+    result[key] = normalizeV2Value(value);
+  });
+  return result;
+};
+
+/**
+ * Flattens expanded entities and complex values into dotted columns
+ * ({ Customer: { CompanyName } } -> { "Customer.CompanyName" }) so charts and tables can address them.
+ * Expanded collections stay arrays; annotations inside nested objects are dropped.
+ */
+export const flattenRow = (row: DataPoint): DataPoint => {
+  const result: DataPoint = {};
+  Object.keys(row).forEach(key => {
+    const value = row[key];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = flattenRow(value);
+      Object.keys(nested).forEach(nestedKey => {
+        if (!nestedKey.includes('@')) result[`${key}.${nestedKey}`] = nested[nestedKey];
+      });
+    } else {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+interface ODataPayload {
+  rows: DataPoint[];
+  nextLink: string | null;
+  count?: number;
+}
+
+// Function results may be collections of primitives; those become { value } rows
+const toRow = (item: any): DataPoint => item !== null && typeof item === 'object' ? item : { value: item };
+
+/**
+ * Reads rows, the next page link and the inline count from a response body.
+ * Handles v4 ("value", "@odata.nextLink", "@odata.count"), the older v3 light form ("odata.nextLink")
+ * and v2 verbose JSON ("d.results", "d.__next", "d.__count").
+ * Single results (an entity, a complex or primitive value returned by a function) give one row.
+ */
+const readODataPayload = (json: any): ODataPayload => {
+  if (json && json.d !== undefined) {
+    const d = json.d;
+    const rawRows = Array.isArray(d) ? d : (Array.isArray(d.results) ? d.results : [d]);
+    return {
+      rows: rawRows.map(toRow).map(normalizeV2Row),
+      nextLink: typeof d.__next === 'string' ? d.__next : null,
+      count: d.__count !== undefined ? Number(d.__count) : undefined
+    };
+  }
+
+  let rows: any[] = [];
+  if (Array.isArray(json?.value)) rows = json.value;
+  else if (Array.isArray(json)) rows = json;
+  else if (json && typeof json === 'object' && 'value' in json) rows = [{ value: json.value }];
+  else if (json && typeof json === 'object' && (json['@odata.context'] || json['odata.metadata'])) {
+    const { '@odata.context': _context, 'odata.metadata': _metadata, ...single } = json;
+    rows = [single];
+  }
+  rows = rows.map(toRow);
+  const link = json?.['@odata.nextLink'] ?? json?.['odata.nextLink'];
+  const count = json?.['@odata.count'] ?? json?.['odata.count'];
+  return {
+    rows,
+    nextLink: typeof link === 'string' && link ? link : null,
+    count: count !== undefined ? Number(count) : undefined
+  };
+};
+
 /**
  * Executes a specific OData query against the base URL.
+ * Follows @odata.nextLink until the service runs out of pages or the row budget is reached.
+ * Rows come back flattened (see flattenRow).
  */
-export const executeODataQuery = async (baseUrl: string, queryPath: string, username?: string, password?: string): Promise<DataPoint[]> => {
-  const cleanUrl = baseUrl.trim().replace(/\/$/, "");
+export const executeODataQuery = async (
+  baseUrl: string,
+  queryPath: string,
+  auth?: AuthStrategy,
+  options: ODataQueryOptions = {}
+): Promise<DataPoint[]> => {
+  const cleanUrl = cleanBaseUrl(baseUrl);
   const url = `${cleanUrl}${queryPath.startsWith('/') ? '' : '/'}${queryPath}`;
-  
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+
+  const rows: DataPoint[] = [];
+  let pagesFetched = 0;
+  let nextUrl: string | null = url;
+
   try {
-    const response = await fetch(url, {
-      headers: getHeaders(username, password)
-    });
+    while (nextUrl) {
+      const pageUrl: string = nextUrl;
+      // Only the first page joins a batch; follow-up pages depend on its response anyway
+      const isFirstPage = pagesFetched === 0;
+      // The time limit applies to each page request, not to the whole paging loop
+      const { signal, dispose } = createRequestSignal(options);
+      let response: ODataHttpResponse;
+      try {
+        response = await sendWithAuthRetry(auth, false, async headers => isFirstPage
+          ? sendODataGet(cleanUrl, pageUrl, headers, signal)
+          : readHttpResponse(await fetch(pageUrl, { headers, signal })));
+      } finally {
+        dispose();
+      }
 
-    if (!response.ok) {
-       throw new Error(`OData Error: ${response.statusText} (URL: ${url})`);
-    }
-    const json = await response.json();
-    
-    if (json.value && Array.isArray(json.value)) {
-      return json.value;
+      if (!response.ok) {
+         throw createODataError(response, pageUrl);
+      }
+      const payload = readODataPayload(response.body);
+
+      rows.push(...payload.rows.map(flattenRow));
+      pagesFetched++;
+      // Next links may be relative to the request URL
+      nextUrl = payload.nextLink ? new URL(payload.nextLink, pageUrl).toString() : null;
+
+      if (rows.length >= maxRows) break;
+      if (nextUrl) {
+        options.onProgress?.({ rowsFetched: rows.length, pagesFetched, truncated: false, done: false });
+      }
     }
-    return Array.isArray(json) ? json : [];
+
+    // Truncated if the budget cut a page short or left pages unread
+    const truncated = rows.length > maxRows || nextUrl !== null;
+    const result = rows.slice(0, maxRows);
+    options.onProgress?.({ rowsFetched: result.length, pagesFetched, truncated, done: true });
+    return result;
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    if (isTimeoutError(error)) throw timeoutError(nextUrl ?? url, options.timeoutMs);
     console.error("Query execution error:", error);
     if (error.name === 'TypeError' && error.message === 'Failed to fetch') {
-      throw new Error("שגיאת תקשורת (CORS).");
+      throw new ODataError("שגיאת תקשורת (CORS).", 0, nextUrl ?? url, { code: 'NetworkError' });
     }
     throw error;
   }
 };
 
 /**
- * Fetches the total count of records for a specific entity using $count=true
+ * Fetches the total count of records for a specific entity
+ * using $count=true (v4) or $inlinecount=allpages (v2).
  */
-export const fetchEntityCount = async (baseUrl: string, entityName: string, username?: string, password?: string): Promise<number> => {
-  const cleanUrl = baseUrl.trim().replace(/\/$/, "");
-  const url = `${cleanUrl}/${entityName}?$top=0&$count=true`;
+export const fetchEntityCount = async (baseUrl: string, entityName: string, auth?: AuthStrategy, options: RequestOptions = {}): Promise<number> => {
+  const cleanUrl = cleanBaseUrl(baseUrl);
+  const countOption = getServiceVersion(baseUrl) === '2.0' ? '$inlinecount=allpages' : '$count=true';
+  const url = `${cleanUrl}/${entityName}?$top=0&${countOption}`;
+  const { signal, dispose } = createRequestSignal(options);
   
   try {
-    const response = await fetch(url, {
-      headers: getHeaders(username, password)
-    });
+    const response = await sendWithAuthRetry(auth, false, headers => sendODataGet(cleanUrl, url, headers, signal));
     if (!response.ok) return 0;
-    const json = await response.json();
+    const { count } = readODataPayload(response.body);
     
-    if (typeof json['@odata.count'] === 'number') {
-      return json['@odata.count'];
-    }
-    return 0;
+    return count !== undefined && !isNaN(count) ? count : 0;
   } catch (e) {
+    // A cancelled caller must not receive a made-up count
+    if (isAbortError(e)) throw e;
     return 0;
+  } finally {
+    dispose();
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Reads a single entity from a response body: v4 returns the entity itself, v2 wraps it in "d".
+ */
+const readEntityBody = (body: any): DataPoint => {
+  if (!body || typeof body !== 'object') return {};
+  if (body.d !== undefined) return flattenRow(normalizeV2Row(body.d));
+  const { '@odata.context': _, ...entity } = body;
+  return flattenRow(entity);
+};
+
+export interface ODataWriteOptions extends RequestOptions {
+  // Skip the ETag check and overwrite whatever the service has (If-Match: *)
+  force?: boolean;
+}
+
+/**
+ * Sends a single entity request (read or write). Non-2xx responses throw an ODataError;
+ * a 412 status means the entity changed on the service since its ETag was read.
+ */
+const sendODataRequest = async (
+  url: string,
+  method: string,
+  version: ODataVersion,
+  auth: AuthStrategy | undefined,
+  options: RequestOptions,
+  body?: DataPoint,
+  extraHeaders: Record<string, string> = {}
+): Promise<ODataHttpResponse> => {
+  const { signal, dispose } = createRequestSignal(options);
+  try {
+    const response = await sendWithAuthRetry(auth, false, async headers => readHttpResponse(await fetch(url, {
+      method,
+      signal,
+      headers: {
+        ...headers,
+        ...extraHeaders,
+        ...(version === '2.0' ? { 'DataServiceVersion': '2.0' } : { 'OData-Version': '4.0' }),
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    })));
+    if (!response.ok) throw createODataError(response, url);
+    return response;
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    if (isTimeoutError(error)) throw timeoutError(url, options.timeoutMs);
+    if (error.name === 'TypeError' && error.message === 'Failed to fetch') {
+      throw new ODataError("שגיאת תקשורת (CORS).", 0, url, { code: 'NetworkError' });
+    }
+    throw error;
+  } finally {
+    dispose();
+  }
+};
+
+const entityUrl = (baseUrl: string, entity: SchemaEntity, row: DataPoint) =>
+  `${cleanBaseUrl(baseUrl)}/${entity.name}${buildKeyPredicate(entity, row, getServiceVersion(baseUrl))}`;
+
+const ifMatchHeader = (row: DataPoint, force?: boolean): Record<string, string> => {
+  if (force) return { 'If-Match': '*' };
+  const etag = row['@odata.etag'];
+  return etag ? { 'If-Match': etag } : {};
+};
+
+/**
+ * Reads the current state of a row's entity from the service.
+ */
+export const fetchODataEntity = async (baseUrl: string, entity: SchemaEntity, row: DataPoint, auth?: AuthStrategy, options: RequestOptions = {}): Promise<DataPoint> => {
+  const url = entityUrl(baseUrl, entity, row);
+  const response = await sendODataRequest(url, 'GET', getServiceVersion(baseUrl), auth, options);
+  const result = readEntityBody(response.body);
+  if (response.headers['etag']) result['@odata.etag'] = response.headers['etag'];
+  return result;
+};
+
+/**
+ * Updates the changed properties of a row (PATCH, or MERGE for v2) guarded by its ETag.
+ * Returns the entity's new ETag when the service sends one.
+ */
+export const updateODataEntity = async (
+  baseUrl: string,
+  entity: SchemaEntity,
+  row: DataPoint,
+  changes: DataPoint,
+  auth?: AuthStrategy,
+  options: ODataWriteOptions = {}
+): Promise<string | undefined> => {
+  const version = getServiceVersion(baseUrl);
+  const url = entityUrl(baseUrl, entity, row);
+  const response = await sendODataRequest(url, version === '2.0' ? 'MERGE' : 'PATCH', version, auth, options, changes, ifMatchHeader(row, options.force));
+  return response.headers['etag'] || (response.body && readEntityBody(response.body)['@odata.etag']) || undefined;
+};
+
+/**
+ * Creates an entity (POST to the entity set) and returns it as stored by the service.
+ */
+export const createODataEntity = async (baseUrl: string, entity: SchemaEntity, values: DataPoint, auth?: AuthStrategy, options: RequestOptions = {}): Promise<DataPoint> => {
+  const url = `${cleanBaseUrl(baseUrl)}/${entity.name}`;
+  const response = await sendODataRequest(url, 'POST', getServiceVersion(baseUrl), auth, options, values);
+  // Services may answer 204 with just a Location header
+  const created = response.body ? readEntityBody(response.body) : { ...values };
+  if (response.headers['etag']) created['@odata.etag'] = response.headers['etag'];
+  return created;
+};
+
+/**
+ * Deletes a row's entity, guarded by its ETag.
+ */
+export const deleteODataEntity = async (baseUrl: string, entity: SchemaEntity, row: DataPoint, auth?: AuthStrategy, options: ODataWriteOptions = {}): Promise<void> => {
+  const url = entityUrl(baseUrl, entity, row);
+  await sendODataRequest(url, 'DELETE', getServiceVersion(baseUrl), auth, options, undefined, ifMatchHeader(row, options.force));
+};
@@ -0,0 +1,74 @@
+/**
+ * Cancellation and timeout options accepted by every query function.
+ */
+export interface RequestOptions {
+  // Aborts the request, e.g. when the widget unmounts or a newer request supersedes it
+  signal?: AbortSignal;
+  // Per-request time limit in ms. Defaults to DEFAULT_TIMEOUT_MS
+  timeoutMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * True for rejections caused by the caller aborting (not by a timeout).
+ */
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * True for rejections caused by the request time limit.
+ */
+export const isTimeoutError = (error: any): boolean => error?.name === 'TimeoutError';
+
+/**
+ * Signal that fires when the caller aborts or when the time limit passes, whichever comes first.
+ * A timeout aborts with a TimeoutError so it can be told apart from a cancellation.
+ * Call dispose() once the request settles to clear the timer and listener.
+ */
+export const createRequestSignal = (options: RequestOptions = {}): { signal: AbortSignal; dispose: () => void } => {
+  const controller = new AbortController();
+  const { signal: parent, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError')), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+};
+
+/**
+ * Rejects with the signal's reason if it has been aborted.
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw signal.reason ?? new DOMException('Aborted', 'AbortError');
+};
+
+/**
+ * setTimeout as a promise that rejects as soon as the signal aborts.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,68 @@
+import { DatabaseSchema } from '../types';
+
+const DB_NAME = 'odata-genius';
+const STORE = 'schemas';
+
+// Bumped whenever parseMetadata's output changes, so schemas parsed by older code are not reused
+const CACHE_FORMAT = 1;
+
+export interface CachedSchema {
+  url: string; // Service root, the store key
+  schema: DatabaseSchema;
+  etag?: string;
+  lastModified?: string;
+  cachedAt: string;
+  format: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'url' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * The cached schema of a service. Undefined when there is none or IndexedDB is unavailable
+ * (e.g. some private browsing modes); the cache is an optimisation, never a reason to fail.
+ */
+export const readCachedSchema = async (url: string): Promise<CachedSchema | undefined> => {
+  if (typeof indexedDB === 'undefined') return undefined;
+  try {
+    const entry = await runRequest<CachedSchema | undefined>('readonly', store => store.get(url));
+    return entry?.format === CACHE_FORMAT ? entry : undefined;
+  } catch (e) {
+    console.warn("Schema cache read failed", e);
+    return undefined;
+  }
+};
+
+/**
+ * Stores a parsed schema with the validators its $metadata response came with.
+ */
+export const writeCachedSchema = async (entry: Omit<CachedSchema, 'cachedAt' | 'format'>): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await runRequest('readwrite', store => store.put({ ...entry, cachedAt: new Date().toISOString(), format: CACHE_FORMAT }));
+  } catch (e) {
+    console.warn("Schema cache write failed", e);
+  }
+};
@@ -0,0 +1,38 @@
+import { DatabaseSchema, SchemaDiff } from '../types';
+
+/**
+ * Compares two versions of a schema by entity set and field name.
+ */
+export const diffSchemas = (previous: DatabaseSchema, current: DatabaseSchema): SchemaDiff => {
+  const diff: SchemaDiff = { addedEntities: [], removedEntities: [], addedFields: [], removedFields: [], retypedFields: [] };
+  const previousEntities = new Map(previous.entities.map(e => [e.name, e]));
+  const currentEntities = new Map(current.entities.map(e => [e.name, e]));
+
+  previous.entities.forEach(e => {
+    if (!currentEntities.has(e.name)) diff.removedEntities.push(e.name);
+  });
+
+  current.entities.forEach(entity => {
+    const before = previousEntities.get(entity.name);
+    if (!before) {
+      diff.addedEntities.push(entity.name);
+      return;
+    }
+    const beforeFields = new Map(before.fields.map(f => [f.name, f]));
+    const currentFields = new Set(entity.fields.map(f => f.name));
+
+    entity.fields.forEach(field => {
+      const old = beforeFields.get(field.name);
+      if (!old) diff.addedFields.push({ entity: entity.name, field: field.name, type: field.type });
+      else if (old.type !== field.type) diff.retypedFields.push({ entity: entity.name, field: field.name, type: field.type, previousType: old.type });
+    });
+    before.fields.forEach(field => {
+      if (!currentFields.has(field.name)) diff.removedFields.push({ entity: entity.name, field: field.name, type: field.type });
+    });
+  });
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: SchemaDiff): boolean =>
+  Object.values(diff).every(list => list.length === 0);
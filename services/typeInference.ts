@@ -0,0 +1,237 @@
+import { DataPoint, SchemaField } from '../types';
+
+// Rows inspected per column; spread over the whole sheet rather than taken from the top
+const SAMPLE_SIZE = 1000;
+
+const TRUE_WORDS = ['true', 'yes', 'y', 'כן', 'אמת'];
+const FALSE_WORDS = ['false', 'no', 'n', 'לא', 'שקר'];
+
+// Currency symbols and codes that may surround a number, e.g. "₪1,200" or "1,200 ILS"
+const CURRENCY = /^(?:[₪$€£¥]|ILS|NIS|USD|EUR|GBP|ש"ח|ש״ח)\s*|\s*(?:[₪$€£¥]|ILS|NIS|USD|EUR|GBP|ש"ח|ש״ח)$/gi;
+const PLAIN_NUMBER = /^[-+]?(\d+(\.\d+)?|\.\d+)([eE][-+]?\d+)?$/;
+const GROUPED_NUMBER = /^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+// Codes such as ZIP codes or "007" lose their leading zero as numbers; "0" and "0.5" are plain numbers
+const LEADING_ZERO = /^[-+]?0\d/;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+// dd/mm/yyyy (or mm/dd/yyyy, decided per column), also with "." or "-" and an optional time
+const LOCALE_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:[ ,T]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+// A time written out, even if it is midnight, makes the column Edm.DateTimeOffset
+const WRITTEN_TIME = /\d[ ,T]+\d{1,2}:\d{2}/;
+
+// Numbers in a column whose header looks like a date are read as Excel serial dates in this range (1927-2173)
+const DATE_HEADER = /date|time|day|תאריך|מועד|זמן/i;
+const SERIAL_RANGE: [number, number] = [10000, 100000];
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+type DateParts = [number, number, number, number, number, number, number]; // y, m, d, h, min, s, ms
+
+const isEmpty = (value: any) => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const parseBoolean = (value: any): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return undefined;
+  const word = value.trim().toLowerCase();
+  if (TRUE_WORDS.includes(word)) return true;
+  if (FALSE_WORDS.includes(word)) return false;
+  return undefined;
+};
+
+/**
+ * Reads numbers written as text: "1,234.5", "₪ 99", "(1,200)" for a negative amount.
+ */
+const parseNumber = (value: any): number | undefined => {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  let text = value.trim().replace(CURRENCY, '').trim();
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1).trim();
+  }
+  if (GROUPED_NUMBER.test(text)) text = text.replace(/,/g, '');
+  return PLAIN_NUMBER.test(text) ? sign * Number(text) : undefined;
+};
+
+/**
+ * Date parts of a value, read as written (no time zone shift). `monthFirst` switches locale dates to mm/dd.
+ */
+const parseDate = (value: any, monthFirst: boolean): DateParts | undefined => {
+  if (value instanceof Date) {
+    // Excel dates come back in local time
+    if (isNaN(value.getTime())) return undefined;
+    return [value.getFullYear(), value.getMonth() + 1, value.getDate(), value.getHours(), value.getMinutes(), value.getSeconds(), value.getMilliseconds()];
+  }
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    // Values with an offset are moved to UTC so every value in the column is comparable
+    if (iso[8]) {
+      const date = new Date(text.replace(' ', 'T'));
+      if (isNaN(date.getTime())) return undefined;
+      return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()];
+    }
+    const ms = iso[7] ? Number(`0.${iso[7]}`) * 1000 : 0;
+    return validDate([Number(iso[1]), Number(iso[2]), Number(iso[3]), Number(iso[4] || 0), Number(iso[5] || 0), Number(iso[6] || 0), Math.round(ms)]);
+  }
+
+  const local = text.match(LOCALE_DATE);
+  if (local) {
+    const first = Number(local[1]);
+    const second = Number(local[2]);
+    let year = Number(local[3]);
+    if (local[3].length === 2) year += year < 50 ? 2000 : 1900;
+    const [day, month] = monthFirst ? [second, first] : [first, second];
+    return validDate([year, month, day, Number(local[4] || 0), Number(local[5] || 0), Number(local[6] || 0), 0]);
+  }
+  return undefined;
+};
+
+// Rejects 31/02 and friends
+const validDate = (parts: DateParts): DateParts | undefined => {
+  const [y, m, d, h, min, s] = parts;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return undefined;
+  if (h > 23 || min > 59 || s > 59) return undefined;
+  return parts;
+};
+
+const serialToDate = (serial: number): DateParts => {
+  const date = new Date(EXCEL_EPOCH_MS + Math.round(serial * 86400000));
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), 0];
+};
+
+const hasTime = (parts: DateParts) => parts[3] !== 0 || parts[4] !== 0 || parts[5] !== 0 || parts[6] !== 0;
+
+// Edm.Date values are "YYYY-MM-DD", Edm.DateTimeOffset values ISO 8601 in UTC, as a service would return them
+const formatDate = (parts: DateParts, withTime: boolean): string => {
+  const iso = new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5], parts[6])).toISOString();
+  return withTime ? iso : iso.substring(0, 10);
+};
+
+// Evenly spaced rows (or values), so a header block or a late change of format is still seen
+const sampleRows = <T>(rows: T[]): T[] => {
+  if (rows.length <= SAMPLE_SIZE) return rows;
+  const step = rows.length / SAMPLE_SIZE;
+  return Array.from({ length: SAMPLE_SIZE }, (_, i) => rows[Math.floor(i * step)]);
+};
+
+interface ColumnType {
+  type: string;
+  coerce: (value: any) => any;
+}
+
+/**
+ * Picks the narrowest type every non-empty sampled value of the column fits:
+ * Boolean, Int32/Int64, Double, Date/DateTimeOffset (text, Excel dates or serials), else String.
+ * Numeric text with a leading zero keeps the column text.
+ */
+const detectColumnType = (name: string, values: any[]): ColumnType => {
+  const present = values.filter(v => !isEmpty(v));
+  const keep = (value: any) => value;
+  if (present.length === 0) return { type: 'Edm.String', coerce: keep };
+
+  if (present.every(v => parseBoolean(v) !== undefined)) {
+    return { type: 'Edm.Boolean', coerce: v => parseBoolean(v) ?? v };
+  }
+
+  const numbers = present.map(parseNumber);
+  const isCode = present.some(v => typeof v === 'string' && LEADING_ZERO.test(v.trim()));
+  if (!isCode && numbers.every(n => n !== undefined)) {
+    const looksLikeSerial = DATE_HEADER.test(name) && present.every(v => typeof v === 'number')
+      && numbers.every(n => n! >= SERIAL_RANGE[0] && n! <= SERIAL_RANGE[1]);
+    if (looksLikeSerial) {
+      const withTime = numbers.some(n => !Number.isInteger(n));
+      return { type: withTime ? 'Edm.DateTimeOffset' : 'Edm.Date', coerce: v => typeof v === 'number' ? formatDate(serialToDate(v), withTime) : v };
+    }
+    const integers = numbers.every(n => Number.isInteger(n));
+    const int32 = integers && numbers.every(n => Math.abs(n!) <= 2147483647);
+    return { type: int32 ? 'Edm.Int32' : integers ? 'Edm.Int64' : 'Edm.Double', coerce: v => parseNumber(v) ?? v };
+  }
+
+  // Day first unless some value can only be month first (e.g. 03/25/2024)
+  const monthFirst = present.some(v => {
+    const match = typeof v === 'string' && v.trim().match(LOCALE_DATE);
+    return !!match && Number(match[2]) > 12 && Number(match[1]) <= 12;
+  });
+  const dates = present.map(v => parseDate(v, monthFirst));
+  if (dates.every(d => d !== undefined)) {
+    const withTime = dates.some(d => hasTime(d!)) || present.some(v => typeof v === 'string' && WRITTEN_TIME.test(v));
+    return {
+      type: withTime ? 'Edm.DateTimeOffset' : 'Edm.Date',
+      coerce: v => {
+        const parts = parseDate(v, monthFirst);
+        return parts ? formatDate(parts, withTime) : v;
+      }
+    };
+  }
+
+  return { type: 'Edm.String', coerce: v => (v instanceof Date ? v.toISOString() : v) };
+};
+
+/**
+ * Infers a field per column from a sample of the rows and converts every row's values to the detected
+ * types. Empty cells become null; a value outside the sample that doesn't fit its column's type is kept as is.
+ * Columns of sparse records that no sampled row has are typed from a sample of their own values.
+ */
+export const inferColumns = (rows: DataPoint[]): { fields: SchemaField[]; rows: DataPoint[] } => {
+  const sample = sampleRows(rows);
+  // Every column of any row, in first-seen order, not just those of the first row or of the sample
+  const columns = new Set<string>();
+  rows.forEach(row => {
+    for (const key in row) columns.add(key);
+  });
+  const names = Array.from(columns);
+
+  const sampled = new Set(sample.flatMap(row => Object.keys(row)));
+  const unsampled = new Map(names.filter(name => !sampled.has(name)).map(name => [name, [] as any[]]));
+  if (unsampled.size) {
+    rows.forEach(row => unsampled.forEach((values, name) => {
+      if (name in row) values.push(row[name]);
+    }));
+  }
+  const types = names.map(name => {
+    const values = unsampled.get(name);
+    return detectColumnType(name, values ? sampleRows(values) : sample.map(row => row[name]));
+  });
+
+  const typed = rows.map(row => {
+    const result: DataPoint = {};
+    names.forEach((name, i) => {
+      const value = row[name];
+      result[name] = isEmpty(value) ? null : types[i].coerce(value);
+    });
+    return result;
+  });
+
+  return { fields: names.map((name, i) => ({ name, type: types[i].type })), rows: typed };
+};
+
+/**
+ * Converts a value to the given Edm type, as chosen by the user in the preparation step rather than inferred.
+ * Text is read like during inference (dates day first); values that don't convert become null.
+ */
+export const convertValue = (value: any, type: string): any => {
+  if (isEmpty(value)) return null;
+  switch (type) {
+    case 'Edm.Boolean':
+      return typeof value === 'number' ? value !== 0 : parseBoolean(value) ?? null;
+    case 'Edm.Int32':
+    case 'Edm.Int64': {
+      const number = parseNumber(value);
+      return number === undefined ? null : Math.trunc(number);
+    }
+    case 'Edm.Double':
+    case 'Edm.Decimal':
+      return parseNumber(value) ?? null;
+    case 'Edm.Date':
+    case 'Edm.DateTimeOffset': {
+      const parts = parseDate(value, false);
+      return parts ? formatDate(parts, type === 'Edm.DateTimeOffset') : null;
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+};
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChartType, DashboardWidgetConfig, LocalDataset } from '../types';
+import { createFileConnection, executeWidgetQuery } from '../services/connectionRegistry';
+
+// A dataset that answers SQL only, the way the worker answers an empty OData query with a syntax error
+const sqlOnlyDataset = (rows: Record<string, any>[]): LocalDataset => ({
+  id: 'dataset-1',
+  rowCounts: { Orders: rows.length },
+  query: async (odataQuery) => { throw new Error(`Unexpected OData query "${odataQuery}"`); },
+  sql: async () => rows,
+  prepare: async () => { throw new Error('Not used'); },
+  dispose: () => {}
+});
+
+const widget = (changes: Partial<DashboardWidgetConfig>): DashboardWidgetConfig => ({
+  id: 'widget-1',
+  title: 'Sales by region',
+  description: '',
+  chartType: ChartType.BAR,
+  odataQuery: '',
+  xAxisKey: 'Region',
+  dataKey: 'Total',
+  entity: 'Orders',
+  ...changes
+});
+
+test('a generated file widget with a SQL query is validated through SQL', async () => {
+  const rows = [{ Region: 'North', Total: 120 }];
+  const connection = createFileConnection('sales.xlsx', sqlOnlyDataset(rows), { entities: [] });
+  const config = widget({ sqlQuery: 'SELECT Region, SUM(Amount) AS Total FROM Orders GROUP BY Region', connectionId: connection.id });
+
+  assert.deepEqual(await executeWidgetQuery(connection, config), rows);
+});
+
+test('a file widget without a SQL query runs its OData query', async () => {
+  const dataset = { ...sqlOnlyDataset([]), query: async (odataQuery: string) => [{ query: odataQuery }] };
+  const connection = createFileConnection('sales.xlsx', dataset, { entities: [] });
+
+  assert.deepEqual(await executeWidgetQuery(connection, widget({ odataQuery: '/Orders?$top=5' })), [{ query: '/Orders?$top=5' }]);
+});
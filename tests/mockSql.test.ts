@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateMockSqlTables } from '../services/mockSqlData';
+import { executeMockSqlQuery } from '../services/mockSqlService';
+
+test('the seeded mock tables are the same on every generation', () => {
+  assert.deepEqual(generateMockSqlTables(), generateMockSqlTables());
+  assert.notDeepEqual(generateMockSqlTables(1), generateMockSqlTables(2));
+});
+
+test('a seeded BigQuery query returns the same rows every time', async () => {
+  const query = `
+    SELECT EXTRACT(MONTH FROM OrderDate) AS Month, COUNTIF(Status = 'Completed') AS Completed, ROUND(SUM(TotalAmount), 2) AS Revenue
+    FROM \`demo-project.sales.Orders\`
+    GROUP BY Month
+    ORDER BY Month`;
+  const first = await executeMockSqlQuery(query, 'demo-project', 'sales');
+  const second = await executeMockSqlQuery(query, 'demo-project', 'sales');
+
+  assert.equal(first.length, 12);
+  assert.deepEqual(first, second);
+});
+
+test("each employee's ActualSales is the sum of their non-cancelled orders", async () => {
+  const mismatches = await executeMockSqlQuery(`
+    SELECT e.EmployeeID
+    FROM Employees e
+    LEFT JOIN Orders o ON o.EmployeeID = e.EmployeeID AND o.Status != 'Cancelled'
+    GROUP BY e.EmployeeID, e.ActualSales
+    HAVING ABS(e.ActualSales - COALESCE(SUM(o.TotalAmount), 0)) > 0.01`);
+
+  assert.deepEqual(mismatches, []);
+});
@@ -27,27 +27,291 @@ export interface DashboardWidgetConfig {
   title: string;
   description: string;
   chartType: ChartType;
-  odataQuery: string; // Used for OData
+  odataQuery: string; // Used for OData. Serialized form of `query` when that is set
+  query?: ODataQuery; // Structured form of odataQuery; older saved configs only have the string
   sqlQuery?: string;  // Used for BigQuery/SQL
   xAxisKey: string;
   dataKey: string;
   entity: string; // The base entity name for drill-down context
   alerts?: AlertConfig[];
+  maxRows?: number; // Row budget when following OData server-driven paging
+  connectionId?: string; // DataConnection the widget queries; older configs fall back to the first connection
+}
+
+export type ODataComparisonOperator = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le' | 'has' | 'in';
+export type ODataArithmeticOperator = 'add' | 'sub' | 'mul' | 'div' | 'divby' | 'mod';
+
+// $filter expression tree
+export type ODataFilterExpression =
+  | {
+      kind: 'literal';
+      value: string | number | boolean | null;
+      // Edm type of typed literals (e.g. Edm.DateTimeOffset, Edm.Guid, Edm.Decimal) or the qualified enum type
+      type?: string;
+    }
+  | { kind: 'property'; path: string } // Slash-separated, e.g. "Address/City" or "Items/$count"
+  | { kind: 'binary'; operator: 'and' | 'or' | ODataComparisonOperator | ODataArithmeticOperator; left: ODataFilterExpression; right: ODataFilterExpression }
+  | { kind: 'not'; operand: ODataFilterExpression }
+  | { kind: 'negate'; operand: ODataFilterExpression }
+  | { kind: 'function'; name: string; args: ODataFilterExpression[] }
+  | { kind: 'list'; items: ODataFilterExpression[] } // Right-hand side of "in"
+  | { kind: 'lambda'; operator: 'any' | 'all'; path: string; variable?: string; predicate?: ODataFilterExpression };
+
+export type ODataLiteralExpression = Extract<ODataFilterExpression, { kind: 'literal' }>;
+
+export interface ODataOrderByItem {
+  property: string;
+  direction: 'asc' | 'desc';
+}
+
+// Query options that can appear both on a query and inside an $expand item
+export interface ODataQueryClauses {
+  select?: string[];
+  filter?: ODataFilterExpression;
+  orderby?: ODataOrderByItem[];
+  top?: number;
+  skip?: number;
+  expand?: ODataExpandItem[];
+  count?: boolean;
+}
+
+export interface ODataExpandItem extends ODataQueryClauses {
+  property: string; // Navigation property (v2 allows paths like "Orders/Items")
+}
+
+// Function called at the end of the resource path
+export interface ODataFunctionCall {
+  // Qualified name of a bound function ("Customers/NS.TopByRevenue(year=2024)").
+  // Omitted for function imports, whose name is the query's entitySet ("TopCustomers(year=2024)").
+  name?: string;
+  parameters: Record<string, ODataLiteralExpression>;
+}
+
+// Structured OData request: resource path plus system query options
+export interface ODataQuery extends ODataQueryClauses {
+  entitySet: string; // Entity set, or the function import name when calling an unbound function
+  path?: string; // Rest of the resource path after the entity set, e.g. "(1)/Items" or "/$count"
+  function?: ODataFunctionCall; // Called after entitySet and path
+  apply?: string; // $apply transformation sequence, kept as written
+  search?: string;
+  customOptions?: Record<string, string>; // Any other parameters, passed through unchanged
+}
+
+// Progress of a query that follows @odata.nextLink pages
+export interface ODataPagingProgress {
+  rowsFetched: number;
+  pagesFetched: number;
+  truncated: boolean; // True when the row budget stopped paging before the last page
+  done: boolean;
+}
+
+// How requests to a data service are authenticated
+export type AuthConfig =
+  | { type: 'none' }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'apiKey'; headerName: string; apiKey: string }
+  | {
+      type: 'oauth2';
+      grantType: 'client_credentials' | 'password';
+      tokenUrl: string;
+      clientId: string;
+      clientSecret?: string;
+      scope?: string;
+      username?: string; // Password grant only
+      password?: string; // Password grant only
+    };
+
+export type ConnectionKind = 'odata' | 'file' | 'sql' | 'timbr';
+
+// One data source active in the dashboard
+export interface DataConnection {
+  id: string; // Derived from the target, so reconnecting to the same source keeps its widgets bound
+  kind: ConnectionKind;
+  label: string;
+  schema: DatabaseSchema;
+  baseUrl?: string; // OData
+  authConfig?: AuthConfig; // OData
+  params?: { [key: string]: string }; // SQL / Timbr: projectId, datasetId, ontology, token
+  dataset?: LocalDataset; // Uploaded file, held by its worker
+}
+
+// Rows of an uploaded file, by entity name (one entity per sheet)
+export type LocalData = Record<string, DataPoint[]>;
+
+// Handle to an uploaded file whose rows live in the local data worker, which also runs the queries against them
+export interface LocalDataset {
+  id: string; // Key of the file in the worker
+  rowCounts: Record<string, number>; // By entity name
+  query: (odataQuery: string, options?: { signal?: AbortSignal }) => Promise<DataPoint[]>;
+  // SQLite SELECT over the file's entities as tables
+  sql: (sql: string, options?: { signal?: AbortSignal }) => Promise<DataPoint[]>;
+  // Replays a preparation recipe on the rows as uploaded (an empty one restores them) and returns the resulting schema
+  prepare: (steps: PrepStep[], schema: DatabaseSchema) => Promise<PreparedData>;
+  dispose: () => void; // Frees the rows in the worker
+}
+
+// --- Data preparation of uploaded files ---
+
+// Value clean-ups offered by the normalize step
+export type NormalizeMode = 'trim' | 'collapse' | 'lower' | 'upper';
+
+// One step of a preparation recipe, applied to one entity (sheet) of an uploaded file
+export type PrepStep =
+  | { kind: 'rename'; entity: string; column: string; to: string }
+  | { kind: 'retype'; entity: string; column: string; type: string } // Edm type; values that don't convert become null
+  | { kind: 'dropColumn'; entity: string; column: string }
+  | { kind: 'dropRows'; entity: string; filter: string } // OData $filter expression of the rows to drop
+  | { kind: 'normalize'; entity: string; column: string; mode: NormalizeMode }
+  | { kind: 'split'; entity: string; column: string; separator: string; into: string[] }
+  | { kind: 'merge'; entity: string; columns: string[]; separator: string; into: string }
+  | { kind: 'calculate'; entity: string; column: string; expression: string }; // OData expression, e.g. "Price mul Quantity"
+
+// A recipe step that could not be replayed (e.g. next month's file lacks the column), by its index in the recipe
+export interface PrepProblem {
+  step: number;
+  message: string;
+}
+
+export interface PreparedData {
+  schema: DatabaseSchema;
+  rowCounts: Record<string, number>;
+  problems: PrepProblem[];
+}
+
+// A column of an entity of an uploaded file
+export interface LocalColumnRef {
+  connectionId: string;
+  entity: string;
+  column: string;
+}
+
+// Link between entities of uploaded files (or sheets of one file): each `from` row points to the `to` row
+// with the same value, e.g. Orders.CustomerID -> Customers.CustomerID. Queried as navigation properties.
+export interface LocalRelationship {
+  from: LocalColumnRef; // Many side
+  to: LocalColumnRef;   // One side, whose column is unique
+}
+
+// Progress of an uploaded file through the worker
+export interface FileParseProgress {
+  stage: 'reading' | 'parsing' | 'typing';
+  percent: number; // Of the current stage, 0-100
 }
 
 export interface SchemaField {
   name: string;
   type: string;
   description?: string;
+  nullable?: boolean; // Defaults to true when omitted, as in CSDL
+  isKey?: boolean;
+  maxLength?: number;
+  readOnly?: boolean; // Computed by the service (Core.Computed, sap:updatable="false")
+  label?: string; // Business name (Common.Label, sap:label)
+  // Measures.ISOCurrency / Measures.Unit: either a fixed code, or the property of the same row that holds it
+  currency?: string;
+  currencyProperty?: string;
+  unit?: string;
+  unitProperty?: string;
+}
+
+// How many target entities a navigation property leads to
+export type NavigationCardinality = 'one' | 'zeroOrOne' | 'many';
+
+export interface SchemaNavigationProperty {
+  name: string;
+  targetType: string;        // Fully qualified entity type, e.g. NorthwindModel.Customer
+  targetEntitySet?: string;  // Resolved from NavigationPropertyBinding when available
+  cardinality: NavigationCardinality;
+  partner?: string;
 }
 
 export interface SchemaEntity {
   name: string;
+  label?: string; // Business name of the entity set or its type
   fields: SchemaField[];
+  entityType?: string; // Fully qualified type name of the entity set
+  keys?: string[];
+  navigationProperties?: SchemaNavigationProperty[];
+  // Uploaded files: rows exploded from a nested array, whose `column` holds the `parentColumn` of the row of `entity` that held it
+  parentLink?: { entity: string; column: string; parentColumn: string };
+  applySupported?: boolean; // $apply (groupby/aggregate) can be pushed down to the service
+  // Write operations the metadata explicitly allows (Capabilities restrictions or sap:updatable/creatable/deletable)
+  updatable?: boolean;
+  insertable?: boolean;
+  deletable?: boolean;
+}
+
+export interface SchemaEnumMember {
+  name: string;
+  value: string;
 }
 
+export interface SchemaEnumType {
+  name: string; // Fully qualified
+  underlyingType?: string;
+  isFlags?: boolean;
+  members: SchemaEnumMember[];
+}
+
+export interface SchemaComplexType {
+  name: string; // Fully qualified
+  fields: SchemaField[];
+}
+
+export interface SchemaParameter {
+  name: string;
+  type: string;
+  nullable?: boolean; // Defaults to true when omitted, as in CSDL
+}
+
+// Function or action the service exposes besides its entity sets
+export interface SchemaOperation {
+  // Import name for unbound operations (called as "/Name(...)"),
+  // qualified name for bound ones (called as "/EntitySet/NS.Name(...)")
+  name: string;
+  kind: 'function' | 'action'; // Functions are side-effect free and called with GET; actions need POST
+  parameters: SchemaParameter[]; // Without the binding parameter
+  returnType?: string; // e.g. "Collection(NS.Customer)" or "Edm.Decimal"
+  entitySet?: string; // Entity set the returned entities belong to
+  boundTo?: string; // Type of the binding parameter, e.g. "Collection(NS.Customer)"
+  label?: string;
+}
+
+// Service-level features advertised through Capabilities / Aggregation vocabulary annotations
+export interface ServiceCapabilities {
+  batchSupported?: boolean;
+  applySupported?: boolean;         // Org.OData.Aggregation.V1.ApplySupported on the entity container
+  applyTransformations?: string[];  // e.g. ["aggregate", "groupby", "filter"], empty when unrestricted
+}
+
+// OData protocol family. '2.0' also covers v1/v3 services, which share the v2 query syntax.
+export type ODataVersion = '2.0' | '4.0';
+
 export interface DatabaseSchema {
   entities: SchemaEntity[];
+  odataVersion?: ODataVersion; // Detected from $metadata (OData services only)
+  capabilities?: ServiceCapabilities;
+  namespaces?: string[];
+  enumTypes?: SchemaEnumType[];
+  complexTypes?: SchemaComplexType[];
+  operations?: SchemaOperation[];
+}
+
+export interface SchemaFieldChange {
+  entity: string;
+  field: string;
+  type: string;          // Current type (the removed field's last type for removals)
+  previousType?: string; // Set for retyped fields
+}
+
+// What changed in a service's schema since the cached version
+export interface SchemaDiff {
+  addedEntities: string[];
+  removedEntities: string[];
+  addedFields: SchemaFieldChange[];
+  removedFields: SchemaFieldChange[];
+  retypedFields: SchemaFieldChange[];
 }
 
 // --- New Types for Visual AI Analysis ---
@@ -1,7 +1,115 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import type { ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MOCK_TOKEN_LIFETIME_S = 60;
+
+// Access tokens issued by the mock token endpoint, with their expiry (epoch ms)
+const issuedTokens = new Map<string, number>();
+let tokenCounter = 0;
+
+const sendJson = (res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+  res.end(JSON.stringify(body));
+};
+
+const MOCK_METADATA = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="Mock" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EntityType Name="Product">
+        <Key><PropertyRef Name="ID"/></Key>
+        <Property Name="ID" Type="Edm.Int32" Nullable="false"/>
+        <Property Name="Name" Type="Edm.String"/>
+        <Property Name="Category" Type="Edm.String"/>
+        <Property Name="Price" Type="Edm.Double"/>
+      </EntityType>
+      <EntityContainer Name="Container">
+        <EntitySet Name="Products" EntityType="Mock.Product"/>
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+const MOCK_PRODUCTS = [
+  { ID: 1, Name: 'Laptop', Category: 'Electronics', Price: 4200 },
+  { ID: 2, Name: 'Monitor', Category: 'Electronics', Price: 950 },
+  { ID: 3, Name: 'Desk', Category: 'Furniture', Price: 1300 },
+  { ID: 4, Name: 'Office Chair', Category: 'Furniture', Price: 780 },
+  { ID: 5, Name: 'Jacket', Category: 'Clothing', Price: 420 }
+];
+
+/**
+ * Dev-only OAuth2 token endpoint (POST /mock-oauth/token) for exercising the OAuth2 auth strategy locally.
+ * Accepts client_credentials, password and refresh_token grants and issues short-lived tokens.
+ * /mock-oauth/revoke invalidates every access token issued so far, so the next request gets a 401.
+ */
+const mockOAuthTokenEndpoint = (): Plugin => ({
+  name: 'mock-oauth-token-endpoint',
+  configureServer(server) {
+    server.middlewares.use('/mock-oauth/revoke', (_req, res) => {
+      issuedTokens.clear();
+      sendJson(res, 200, { revoked: true });
+    });
+    server.middlewares.use('/mock-oauth/token', (req, res) => {
+      const send = (status: number, body: object) => sendJson(res, status, body);
+      if (req.method !== 'POST') return send(405, { error: 'invalid_request' });
+
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(raw);
+        const grantType = params.get('grant_type');
+        if (!params.get('client_id')) return send(401, { error: 'invalid_client', error_description: 'client_id is required' });
+        if (grantType === 'password' && (!params.get('username') || !params.get('password'))) {
+          return send(400, { error: 'invalid_grant', error_description: 'username and password are required' });
+        }
+        if (!['client_credentials', 'password', 'refresh_token'].includes(grantType || '')) {
+          return send(400, { error: 'unsupported_grant_type' });
+        }
+        const accessToken = `mock-${Date.now().toString(36)}-${++tokenCounter}`;
+        issuedTokens.set(accessToken, Date.now() + MOCK_TOKEN_LIFETIME_S * 1000);
+        send(200, {
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: MOCK_TOKEN_LIFETIME_S,
+          ...(grantType !== 'client_credentials' ? { refresh_token: `mock-refresh-${Date.now().toString(36)}` } : {})
+        });
+      });
+    });
+  }
+});
+
+/**
+ * Dev-only OData v4 service (/mock-odata/) that only answers requests carrying a valid, unexpired
+ * access token of the mock token endpoint, and rejects any other with a 401.
+ */
+const mockProtectedService = (): Plugin => ({
+  name: 'mock-protected-odata-service',
+  configureServer(server) {
+    server.middlewares.use('/mock-odata', (req, res) => {
+      const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const expiresAt = token ? issuedTokens.get(token) : undefined;
+      if (!expiresAt || expiresAt <= Date.now()) {
+        return sendJson(res, 401, { error: { code: '401', message: 'Invalid or expired access token' } },
+          { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+      }
+
+      const path = (req.url || '/').split('?')[0].replace(/^\/+|\/+$/g, '');
+      if (path === '$metadata') {
+        res.setHeader('Content-Type', 'application/xml');
+        return res.end(MOCK_METADATA);
+      }
+      if (path === '') return sendJson(res, 200, { value: [{ name: 'Products', kind: 'EntitySet', url: 'Products' }] });
+      if (path === 'Products') return sendJson(res, 200, { value: MOCK_PRODUCTS });
+      sendJson(res, 404, { error: { code: '404', message: `Resource not found: ${path}` } });
+    });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +117,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mockOAuthTokenEndpoint(), mockProtectedService()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)